@@ -1,12 +1,22 @@
 import type { NextConfig } from "next";
+import { PHASE_PRODUCTION_BUILD } from "next/constants";
+import { assertValidContent } from "./src/lib/validate-content";
 
 const nextConfig: NextConfig = {
   // GitHub Pages serves static files only — no Node server — so the site is
   // pre-rendered to out/ rather than built as a standalone server.
   output: "export",
+  // No image server either: scripts/responsive-images.mjs generates the
+  // srcset widths and placeholders ahead of the build instead.
   images: {
     unoptimized: true,
   },
 };
 
-export default nextConfig;
+export default async function config(phase: string): Promise<NextConfig> {
+  // Check every content entry and media file before building, so a missing or
+  // mis-sized asset fails the deploy rather than shipping a blank tile. Dev
+  // skips it, so a half-finished entry can still be previewed.
+  if (phase === PHASE_PRODUCTION_BUILD) await assertValidContent();
+  return nextConfig;
+}
@@ -0,0 +1,101 @@
+/*
+ * GitHub Pages has no image server, so next/image stays unoptimized and this
+ * script does its job ahead of time instead. Run as the prebuild and predev
+ * step, it takes each raster file under public/images and writes narrower webp
+ * copies to public/generated/images, plus a tiny placeholder for each, and
+ * records them all in a manifest. src/lib/responsive-images.ts reads that
+ * manifest and folds srcSet, placeholder and intrinsic size into each Media.
+ *
+ * It runs before `next build` rather than from next.config.ts so the manifest
+ * is complete before anything imports the content.
+ *
+ * Copies newer than their source are kept, so a rerun only pays for what
+ * changed.
+ */
+
+import { existsSync } from "node:fs";
+import { mkdir, readdir, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import sharp from "sharp";
+
+const PUBLIC_DIR = path.join(process.cwd(), "public");
+const SOURCE_DIR = path.join(PUBLIC_DIR, "images");
+const OUTPUT_DIR = path.join(PUBLIC_DIR, "generated", "images");
+// Outside public/ so it never ships. Keep in sync with src/lib/responsive-images.ts.
+const MANIFEST = path.join(process.cwd(), ".next", "cache", "responsive-images.json");
+
+/** Candidate widths; any at or above the source width are dropped. */
+const WIDTHS = [320, 640, 960, 1280, 1920];
+
+const PLACEHOLDER_WIDTH = 16;
+const RASTER = /\.(webp|jpe?g|png|avif)$/i;
+
+async function listImages(dir) {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const nested = await Promise.all(
+    entries.map((entry) => {
+      const full = path.join(dir, entry.name);
+      if (entry.isDirectory()) return listImages(full);
+      return RASTER.test(entry.name) ? [full] : [];
+    }),
+  );
+  return nested.flat();
+}
+
+async function isFresh(output, sourceMtime) {
+  try {
+    return (await stat(output)).mtimeMs >= sourceMtime;
+  } catch {
+    return false;
+  }
+}
+
+/* "/images/works/a%20b.webp" — srcset splits on whitespace, so paths go in encoded. */
+function siteUrl(file) {
+  return "/" + path.relative(PUBLIC_DIR, file).split(path.sep).map(encodeURIComponent).join("/");
+}
+
+async function processImage(file) {
+  const { mtimeMs } = await stat(file);
+  // The upright size, after any EXIF rotation — what the browser will show.
+  const { width, height } = (await sharp(file).metadata()).autoOrient;
+
+  const base = path.join(OUTPUT_DIR, path.relative(SOURCE_DIR, file).replace(RASTER, ""));
+  await mkdir(path.dirname(base), { recursive: true });
+
+  const candidates = [];
+  for (const target of WIDTHS.filter((w) => w < width)) {
+    const output = `${base}-${target}w.webp`;
+    if (!(await isFresh(output, mtimeMs))) {
+      await sharp(file).autoOrient().resize({ width: target }).webp({ quality: 75 }).toFile(output);
+    }
+    candidates.push(`${siteUrl(output)} ${target}w`);
+  }
+  candidates.push(`${siteUrl(file)} ${width}w`);
+
+  const tiny = await sharp(file)
+    .autoOrient()
+    .resize({ width: PLACEHOLDER_WIDTH })
+    .webp({ quality: 40 })
+    .toBuffer();
+
+  return {
+    width,
+    height,
+    srcSet: candidates.join(", "),
+    placeholder: `data:image/webp;base64,${tiny.toString("base64")}`,
+  };
+}
+
+const manifest = {};
+if (existsSync(SOURCE_DIR)) {
+  // One at a time: sharp already threads internally.
+  for (const file of await listImages(SOURCE_DIR)) {
+    // Keyed the way Media.src is written: site-absolute, not encoded.
+    const src = "/" + path.relative(PUBLIC_DIR, file).split(path.sep).join("/");
+    manifest[src] = await processImage(file);
+  }
+}
+await mkdir(path.dirname(MANIFEST), { recursive: true });
+await writeFile(MANIFEST, JSON.stringify(manifest, null, 2));
+console.log(`Responsive images: ${Object.keys(manifest).length} source files`);
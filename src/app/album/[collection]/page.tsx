@@ -0,0 +1,58 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { PhotoGrid } from "@/components/album/photo-grid";
+import { Nav } from "@/components/nav";
+import { albumCollections } from "@/lib/content";
+
+export function generateStaticParams() {
+  return albumCollections.map((collection) => ({ collection: collection.slug }));
+}
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ collection: string }>;
+}): Promise<Metadata> {
+  const { collection: slug } = await params;
+  const collection = albumCollections.find((c) => c.slug === slug);
+  if (!collection) return {};
+  return {
+    title: `${collection.title} — Album — Evan Sie`,
+    description: collection.summary,
+  };
+}
+
+export default async function CollectionPage({
+  params,
+}: {
+  params: Promise<{ collection: string }>;
+}) {
+  const { collection: slug } = await params;
+  const collection = albumCollections.find((c) => c.slug === slug);
+  if (!collection) notFound();
+
+  return (
+    <>
+      <Nav />
+      <div className="page">
+        <div className="page-container is-wide">
+          {collection.date && (
+            <div className="page-meta">
+              <span>{collection.date}</span>
+            </div>
+          )}
+
+          <h1 className="page-title">{collection.title}</h1>
+          {collection.summary && <p className="page-intro">{collection.summary}</p>}
+
+          <PhotoGrid photos={collection.photos} />
+
+          <Link href="/album" className="page-back">
+            ← Album
+          </Link>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -1,21 +1,25 @@
 import type { Metadata } from "next";
 import Link from "next/link";
+import { CollectionGrid } from "@/components/album/photo-grid";
 import { Nav } from "@/components/nav";
+import { albumCollections } from "@/lib/content";
 
 export const metadata: Metadata = {
   title: "Album — Evan Sie",
   description: "Photography.",
 };
 
-// Placeholder for now, per the design brief — this becomes the photo gallery.
 export default function AlbumPage() {
   return (
     <>
       <Nav />
       <div className="page">
-        <div className="page-container">
+        <div className="page-container is-wide">
           <h1 className="page-title">Album</h1>
-          <p className="page-intro">Photographs. Coming soon.</p>
+          <p className="page-intro">Photographs, grouped by where and when they were taken.</p>
+
+          <CollectionGrid collections={albumCollections} />
+
           <Link href="/" className="page-back">
             ← Back
           </Link>
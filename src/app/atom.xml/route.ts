@@ -0,0 +1,11 @@
+import { atomFeed } from "@/lib/feeds";
+import { FEEDS } from "@/lib/site";
+
+// Rendered once at build time into out/atom.xml.
+export const dynamic = "force-static";
+
+export function GET() {
+  return new Response(atomFeed(), {
+    headers: { "Content-Type": `${FEEDS.atom.type}; charset=utf-8` },
+  });
+}
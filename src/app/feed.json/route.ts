@@ -0,0 +1,11 @@
+import { jsonFeed } from "@/lib/feeds";
+import { FEEDS } from "@/lib/site";
+
+// Rendered once at build time into out/feed.json.
+export const dynamic = "force-static";
+
+export function GET() {
+  return Response.json(jsonFeed(), {
+    headers: { "Content-Type": `${FEEDS.json.type}; charset=utf-8` },
+  });
+}
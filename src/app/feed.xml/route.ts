@@ -0,0 +1,11 @@
+import { rssFeed } from "@/lib/feeds";
+import { FEEDS } from "@/lib/site";
+
+// Rendered once at build time into out/feed.xml.
+export const dynamic = "force-static";
+
+export function GET() {
+  return new Response(rssFeed(), {
+    headers: { "Content-Type": `${FEEDS.rss.type}; charset=utf-8` },
+  });
+}
@@ -2,6 +2,7 @@ import type { Metadata, Viewport } from "next";
 import { Geist_Mono } from "next/font/google";
 import localFont from "next/font/local";
 import { NoiseTexture } from "@/components/noise-texture";
+import { FEEDS, SITE_URL } from "@/lib/site";
 import "./globals.css";
 
 /*
@@ -54,6 +55,7 @@ export const viewport: Viewport = {
 };
 
 export const metadata: Metadata = {
+  metadataBase: new URL(SITE_URL),
   title: "Evan Sie",
   description:
     "Mechanical engineering senior at UTD. Aerospace, model aircraft, and things I build.",
@@ -63,6 +65,14 @@ export const metadata: Metadata = {
       "Mechanical engineering senior at UTD. Aerospace, model aircraft, and things I build.",
     images: ["/seo/opengraph-image.jpg"],
   },
+  // Lets feed readers discover the Works feeds from any page.
+  alternates: {
+    types: {
+      [FEEDS.rss.type]: [{ url: FEEDS.rss.path, title: "Evan Sie — Works (RSS)" }],
+      [FEEDS.atom.type]: [{ url: FEEDS.atom.path, title: "Evan Sie — Works (Atom)" }],
+      [FEEDS.json.type]: [{ url: FEEDS.json.path, title: "Evan Sie — Works (JSON Feed)" }],
+    },
+  },
 };
 
 export default function RootLayout({
@@ -0,0 +1,30 @@
+import type { MetadataRoute } from "next";
+import { albumCollections, workItems } from "@/lib/content";
+import { absoluteUrl } from "@/lib/site";
+import { collectTags } from "@/lib/tags";
+
+// Rendered once at build time into out/sitemap.xml.
+export const dynamic = "force-static";
+
+export default function sitemap(): MetadataRoute.Sitemap {
+  return [
+    { url: absoluteUrl("/"), changeFrequency: "monthly", priority: 1 },
+    { url: absoluteUrl("/album"), changeFrequency: "monthly", priority: 0.6 },
+    ...workItems.map((item) => ({
+      url: absoluteUrl(`/works/${item.slug}`),
+      lastModified: item.published,
+      changeFrequency: "yearly" as const,
+      priority: 0.8,
+    })),
+    ...albumCollections.map((collection) => ({
+      url: absoluteUrl(`/album/${collection.slug}`),
+      changeFrequency: "yearly" as const,
+      priority: 0.5,
+    })),
+    ...collectTags(workItems).map((tag) => ({
+      url: absoluteUrl(`/tags/${tag.slug}`),
+      changeFrequency: "monthly" as const,
+      priority: 0.3,
+    })),
+  ];
+}
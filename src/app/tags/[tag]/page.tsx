@@ -0,0 +1,64 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { Nav } from "@/components/nav";
+import { WorkCard } from "@/components/works/work-card";
+import { workItems } from "@/lib/content";
+import { collectTags, hasTag } from "@/lib/tags";
+
+export function generateStaticParams() {
+  return collectTags(workItems).map((tag) => ({ tag: tag.slug }));
+}
+
+function findTag(slug: string) {
+  return collectTags(workItems).find((tag) => tag.slug === slug);
+}
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ tag: string }>;
+}): Promise<Metadata> {
+  const tag = findTag((await params).tag);
+  if (!tag) return {};
+  return {
+    title: `${tag.label} — Evan Sie`,
+    description: `Works tagged ${tag.label}.`,
+  };
+}
+
+export default async function TagPage({ params }: { params: Promise<{ tag: string }> }) {
+  const tag = findTag((await params).tag);
+  if (!tag) notFound();
+
+  const items = workItems.filter((item) => hasTag(item, tag.slug));
+
+  return (
+    <>
+      <Nav />
+      <div className="page">
+        <div className="page-container is-wide">
+          <div className="page-meta">
+            <span>Tag</span>
+            <span>
+              {tag.count} work{tag.count === 1 ? "" : "s"}
+            </span>
+          </div>
+          <h1 className="page-title">{tag.label}</h1>
+
+          <ul className="work-strip">
+            {items.map((item) => (
+              <li key={item.slug} className="work-strip-item">
+                <WorkCard item={item} />
+              </li>
+            ))}
+          </ul>
+
+          <Link href={`/?tag=${tag.slug}#works`} className="page-back">
+            ← Works
+          </Link>
+        </div>
+      </div>
+    </>
+  );
+}
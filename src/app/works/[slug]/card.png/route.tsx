@@ -0,0 +1,19 @@
+import { notFound } from "next/navigation";
+import { workItems } from "@/lib/content";
+import { socialCard } from "@/lib/social-card";
+
+// Rendered once per project at build time into out/works/[slug]/card.png. A
+// route with a real extension, rather than the opengraph-image convention,
+// so GitHub Pages serves it as image/png.
+export const dynamic = "force-static";
+
+export function generateStaticParams() {
+  return workItems.map((item) => ({ slug: item.slug }));
+}
+
+export async function GET(_request: Request, { params }: { params: Promise<{ slug: string }> }) {
+  const { slug } = await params;
+  const item = workItems.find((w) => w.slug === slug);
+  if (!item) notFound();
+  return socialCard(item);
+}
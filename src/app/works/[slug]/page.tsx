@@ -1,9 +1,23 @@
 import type { Metadata } from "next";
 import Link from "next/link";
 import { notFound } from "next/navigation";
+import { JsonLd } from "@/components/json-ld";
 import { Nav } from "@/components/nav";
+import { ResponsiveImg } from "@/components/responsive-img";
+import { BodyBlocks } from "@/components/works/body-blocks";
+import { FlightMaps } from "@/components/works/flight-maps";
+import { SpecSheet } from "@/components/works/spec-sheet";
+import { TelemetryCharts } from "@/components/works/telemetry-charts";
+import { WorkBackLink } from "@/components/works/work-back-link";
+import { WorkCard } from "@/components/works/work-card";
+import { WorkGallery } from "@/components/works/work-gallery";
+import { YouTubeEmbed } from "@/components/youtube-embed";
 import { workItems } from "@/lib/content";
-import type { Media } from "@/types/content";
+import { adjacentWorks, relatedWorks } from "@/lib/related";
+import { SOCIAL_CARD_SIZE, socialCardPath } from "@/lib/social-card";
+import { workJsonLd } from "@/lib/structured-data";
+import { tagSlug } from "@/lib/tags";
+import { isYouTube, linkVideo } from "@/lib/youtube";
 
 export function generateStaticParams() {
   return workItems.map((item) => ({ slug: item.slug }));
@@ -17,37 +31,21 @@ export async function generateMetadata({
   const { slug } = await params;
   const item = workItems.find((w) => w.slug === slug);
   if (!item) return {};
+  const title = `${item.title ?? item.heading} — Evan Sie`;
+  const description = item.summary ?? item.subheading;
+  const card = {
+    url: socialCardPath(item),
+    ...SOCIAL_CARD_SIZE,
+    alt: `${item.title ?? item.heading}${item.summary ? ` — ${item.summary}` : ""}`,
+  };
   return {
-    title: `${item.title ?? item.heading} — Evan Sie`,
-    description: item.summary ?? item.subheading,
+    title,
+    description,
+    openGraph: { type: "article", title, description, url: `/works/${item.slug}`, images: [card] },
+    twitter: { card: "summary_large_image", title, description, images: [card] },
   };
 }
 
-function isVideo(media: Media) {
-  return media.kind === "video" || /\.(mp4|webm|mov|m4v)$/i.test(media.src);
-}
-
-function GalleryItem({ media }: { media: Media }) {
-  if (isVideo(media)) {
-    return (
-      <video
-        className="gallery-media"
-        src={media.src}
-        aria-label={media.alt}
-        controls
-        muted
-        loop
-        playsInline
-        preload="metadata"
-      />
-    );
-  }
-  return (
-    // eslint-disable-next-line @next/next/no-img-element
-    <img className="gallery-media" src={media.src} alt={media.alt} loading="lazy" decoding="async" />
-  );
-}
-
 export default async function WorkPage({
   params,
 }: {
@@ -57,15 +55,29 @@ export default async function WorkPage({
   const item = workItems.find((w) => w.slug === slug);
   if (!item) notFound();
 
+  const { previous, next } = adjacentWorks(workItems, item.slug);
+  const related = relatedWorks(workItems, item);
+  const linked = linkVideo(item.link);
+
   return (
     <>
+      <JsonLd data={workJsonLd(item)} />
       <Nav />
       <div className="page">
         <div className="page-container">
-          <div className="page-hero" style={{ backgroundColor: item.bg }}>
-            {item.image ? (
-              // eslint-disable-next-line @next/next/no-img-element
-              <img className="page-hero-img" src={item.image.src} alt={item.image.alt} />
+          <div
+            className="page-hero"
+            style={{ backgroundColor: item.bg }}
+            data-work-hero={item.slug}
+          >
+            {item.image && isYouTube(item.image) ? (
+              <YouTubeEmbed className="page-hero-embed" media={item.image} />
+            ) : item.image ? (
+              <ResponsiveImg
+                className="page-hero-img"
+                media={item.image}
+                sizes="(max-width: 767px) 100vw, 624px"
+              />
             ) : (
               <span className="pg-slot" style={{ color: item.fg }}>
                 {item.imageHint}
@@ -86,22 +98,42 @@ export default async function WorkPage({
           {item.tags && item.tags.length > 0 && (
             <ul className="tag-row">
               {item.tags.map((tag) => (
-                <li key={tag} className="tag">
-                  {tag}
+                <li key={tag}>
+                  <Link href={`/tags/${tagSlug(tag)}`} className="tag">
+                    {tag}
+                  </Link>
                 </li>
               ))}
             </ul>
           )}
 
+          {item.specs && item.specs.length > 0 && <SpecSheet specs={item.specs} />}
+
           <div className="page-body">
-            {item.body?.map((paragraph) => <p key={paragraph}>{paragraph}</p>)}
-
-            {item.link && (
-              <p>
-                <a href={item.link.href} target="_blank" rel="noopener">
-                  {item.link.label} ↗
-                </a>
-              </p>
+            {item.blocks ? (
+              <BodyBlocks blocks={item.blocks} />
+            ) : (
+              item.body?.map((paragraph) => <p key={paragraph}>{paragraph}</p>)
+            )}
+
+            {item.link && linked ? (
+              <figure className="page-figure">
+                <YouTubeEmbed media={linked} />
+                <figcaption>
+                  {item.link.label} ·{" "}
+                  <a href={item.link.href} target="_blank" rel="noopener">
+                    YouTube ↗
+                  </a>
+                </figcaption>
+              </figure>
+            ) : (
+              item.link && (
+                <p>
+                  <a href={item.link.href} target="_blank" rel="noopener">
+                    {item.link.label} ↗
+                  </a>
+                </p>
+              )
             )}
 
             {item.achievements && item.achievements.length > 0 && (
@@ -116,22 +148,62 @@ export default async function WorkPage({
             )}
           </div>
 
+          {item.telemetry && item.telemetry.length > 0 && (
+            <div className="telemetry">
+              <h2 className="page-subhead">Telemetry</h2>
+              <TelemetryCharts telemetry={item.telemetry} />
+            </div>
+          )}
+
+          {item.tracks && item.tracks.length > 0 && (
+            <div className="flight-maps">
+              <h2 className="page-subhead">Flight path</h2>
+              <FlightMaps tracks={item.tracks} />
+            </div>
+          )}
+
           {item.gallery && item.gallery.length > 0 && (
             <div className="gallery">
               <h2 className="page-subhead">Gallery</h2>
-              <div className="gallery-grid">
-                {item.gallery.map((media) => (
-                  <div className="gallery-frame" key={media.src}>
-                    <GalleryItem media={media} />
-                  </div>
+              <WorkGallery items={item.gallery} />
+            </div>
+          )}
+
+          {related.length > 0 && (
+            <div className="related">
+              <h2 className="page-subhead">Related work</h2>
+              <ul className="work-strip">
+                {related.map((other) => (
+                  <li key={other.slug} className="work-strip-item">
+                    <WorkCard item={other} />
+                  </li>
                 ))}
-              </div>
+              </ul>
             </div>
           )}
 
-          <Link href="/" className="page-back">
-            ← Back
-          </Link>
+          {(previous || next) && (
+            <nav className="page-pager" aria-label="More works">
+              {previous && (
+                <Link href={`/works/${previous.slug}`} className="page-pager-link" rel="prev">
+                  <span className="page-pager-label">Previous</span>
+                  ← {previous.heading}
+                </Link>
+              )}
+              {next && (
+                <Link
+                  href={`/works/${next.slug}`}
+                  className="page-pager-link is-next"
+                  rel="next"
+                >
+                  <span className="page-pager-label">Next</span>
+                  {next.heading} →
+                </Link>
+              )}
+            </nav>
+          )}
+
+          <WorkBackLink slug={item.slug} />
         </div>
       </div>
     </>
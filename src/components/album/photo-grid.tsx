@@ -0,0 +1,71 @@
+import Link from "next/link";
+import { ResponsiveImg } from "@/components/responsive-img";
+import type { AlbumCollection, Photo } from "@/types/content";
+
+/*
+ * Masonry is plain CSS columns rather than a measured JS layout: the static
+ * export ships no server to measure with, and every photo already declares its
+ * intrinsic size, so the browser can reserve each frame's height up front.
+ * Reading order runs down each column, which suits a photo set fine.
+ */
+
+function PhotoFrame({ photo }: { photo: Photo }) {
+  return (
+    <ResponsiveImg
+      media={photo}
+      sizes="(max-width: 767px) 100vw, (max-width: 1136px) 50vw, 360px"
+      lazy
+    />
+  );
+}
+
+export function PhotoGrid({ photos }: { photos: Photo[] }) {
+  return (
+    <ul className="album-masonry">
+      {photos.map((photo) => (
+        <li key={photo.src} className="album-masonry-item">
+          <figure className="album-figure">
+            <div className="album-frame">
+              <PhotoFrame photo={photo} />
+            </div>
+            {photo.caption && <figcaption className="album-caption">{photo.caption}</figcaption>}
+          </figure>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function collectionCover(collection: AlbumCollection): Photo | undefined {
+  return collection.cover ?? collection.photos[0];
+}
+
+/* The album index: one cover per collection, captioned with its title. */
+export function CollectionGrid({ collections }: { collections: AlbumCollection[] }) {
+  return (
+    <ul className="album-masonry">
+      {collections.map((collection) => {
+        const cover = collectionCover(collection);
+        return (
+          <li key={collection.slug} className="album-masonry-item">
+            <Link href={`/album/${collection.slug}`} className="album-collection-link">
+              <figure className="album-figure">
+                {cover && (
+                  <div className="album-frame">
+                    <PhotoFrame photo={cover} />
+                  </div>
+                )}
+                <figcaption className="album-caption">
+                  <span className="album-collection-title">{collection.title}</span>
+                  <span>
+                    {collection.photos.length} photo{collection.photos.length === 1 ? "" : "s"}
+                  </span>
+                </figcaption>
+              </figure>
+            </Link>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
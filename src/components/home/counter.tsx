@@ -1,6 +1,7 @@
 "use client";
 
-import { TOTAL_REVEALS, useHome } from "./home-context";
+import { TOTAL_REVEALS } from "@/lib/bio";
+import { useHome } from "./home-context";
 
 export function Counter() {
   const { openCount, navStacked } = useHome();
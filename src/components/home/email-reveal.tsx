@@ -16,6 +16,7 @@ export function EmailReveal({ id, address }: { id: number; address: string }) {
         type="button"
         className="home-link-button email-closed"
         data-state={state}
+        data-pill={id}
         aria-expanded={isOpen(id)}
         onClick={() => toggle(id)}
       >
@@ -1,96 +1,252 @@
 "use client";
 
+import { useCallback, useEffect, useRef, useState } from "react";
+import { NUMBERED_BIO, type NumberedBioNode } from "@/lib/bio";
 import { EmailReveal } from "./email-reveal";
 import { useHome } from "./home-context";
 import { HomeVideoButton } from "./home-video-button";
 import { Reveal, RevealContent, RevealTrigger } from "./reveal";
+import { type ScrollEffect, scale3d, useScrollEffect } from "./scroll-engine";
 
 /*
- * The bio, pill-for-pill from the design. Pill ids 1–13 match TOTAL_REVEALS and
- * drive the R{n}/13 counter, so renumber both together if you add a pill.
+ * Renders the bio tree from src/lib/bio.ts onto the reveal primitives. Ids
+ * come numbered from there, so this file never changes when the copy does.
  */
 
-const VTOL_SEARCH =
-  "https://www.google.com/search?q=vertical+takeoff+and+landing+aircraft";
+function BioNodes({ nodes }: { nodes: NumberedBioNode[] }) {
+  return nodes.map((node, i) => <BioNodeView key={i} node={node} />);
+}
 
-export function HomeBio() {
-  const { videoState } = useHome();
+function BioNodeView({ node }: { node: NumberedBioNode }) {
+  if (typeof node === "string") return node;
 
-  return (
-    <div className="home-multiply" data-state={videoState}>
-      <div className="intro-scale">
-        <div className="home-container">
-          <span className="home-text" style={{ "--delay": 0 } as React.CSSProperties}>
-            Hi there! I’m{" "}
-            <Reveal id={1} label="Evan">
-              {" "}
-              Sie. I’m a senior studying for a Bachelor’s in Mechanical
-              Engineering at{" "}
-              <Reveal id={2} label="UTD">
-                . I love anything related to{" "}
-                <Reveal id={3} label="STEM">
-                  . Over the years I discovered my niche: building and piloting
-                  model aircraft.{" "}
-                </Reveal>
-              </Reveal>
-            </Reveal>
-          </span>
-
-          <span className="home-text" style={{ "--delay": 1 } as React.CSSProperties}>
+  switch (node.kind) {
+    case "pill":
+      // A lead phrase shares a nowrap span with the trigger while the content
+      // sits outside it, so only the phrase itself is kept from breaking.
+      if (node.lead) {
+        return (
+          <>
             <span className="keep-together">
-              My background is in <RevealTrigger id={4}>Aerospace</RevealTrigger>
+              {node.lead}
+              <RevealTrigger id={node.id}>{node.label}</RevealTrigger>
             </span>
-            <RevealContent id={4}>
-              . I 3D printed a{" "}
-              <a className="home-link" href={VTOL_SEARCH} target="_blank" rel="noopener">
-                VTOL
-              </a>{" "}
-              <Reveal id={5} label="aircraft">
-                {" "}
-                that takes off like a drone and unfolds its wings mid-flight.
-              </Reveal>{" "}
-              I wear many different hats, but my main focus is in{" "}
-              <Reveal id={6} label="engineering">
-                . I led a team of student engineers in launching a{" "}
-                <Reveal id={7} label="payload">
-                  {" "}
-                  measuring ozone and radiation at 94,000ft.
-                </Reveal>{" "}
-                Before that I used a{" "}
-                <Reveal id={8} label="Raspberry Pi">
-                  {" "}
-                  to build a smart mirror for my bedroom, a futuristic and
-                  convenient way to get my day’s information.
-                </Reveal>
-              </Reveal>{" "}
-              I love to explore the world and{" "}
-              <HomeVideoButton>take pictures</HomeVideoButton> to compose and
-              tell a story. My dream is to live in the{" "}
-              <Reveal id={9} label="Swiss Alps">
-                , but I currently live in{" "}
-                <Reveal id={10} label="Frisco TX">
-                  , though I was born in{" "}
-                  <Reveal id={11} label="Jakarta">
-                    , Indonesia
-                  </Reveal>
-                  .{" "}
-                </Reveal>
-              </Reveal>
+            <RevealContent id={node.id}>
+              <BioNodes nodes={node.children} />
             </RevealContent>
-          </span>
+          </>
+        );
+      }
+      return (
+        <Reveal id={node.id} label={node.label}>
+          <BioNodes nodes={node.children} />
+        </Reveal>
+      );
+    case "link":
+      return (
+        <a className="home-link" href={node.href} target="_blank" rel="noopener">
+          {node.label}
+        </a>
+      );
+    case "email":
+      return <EmailReveal id={node.id} address={node.address} />;
+    case "video":
+      return <HomeVideoButton>{node.label}</HomeVideoButton>;
+  }
+}
 
-          <span className="home-text" style={{ "--delay": 2 } as React.CSSProperties}>
-            <span className="keep-together">
-              You can reach me through{" "}
-              <RevealTrigger id={12}>LinkedIn</RevealTrigger>
-            </span>
-            <RevealContent id={12}>
-              {" "}
-              or <EmailReveal id={13} address="evansie485@gmail.com" /> to
-              collaborate and start a project. Let’s see if we can make it
-              happen.
-            </RevealContent>
-          </span>
+/*
+ * The same tree read straight through: every pill's label and continuation
+ * inline, links kept, nothing to press. What "Read full bio" swaps in.
+ */
+function ProseNodes({ nodes }: { nodes: NumberedBioNode[] }) {
+  return nodes.map((node, i) => <ProseNodeView key={i} node={node} />);
+}
+
+function ProseNodeView({ node }: { node: NumberedBioNode }) {
+  if (typeof node === "string") return node;
+
+  switch (node.kind) {
+    case "pill":
+      return (
+        <>
+          {node.lead}
+          {node.label}
+          <ProseNodes nodes={node.children} />
+        </>
+      );
+    case "link":
+      return (
+        <a className="home-link" href={node.href} target="_blank" rel="noopener">
+          {node.label}
+        </a>
+      );
+    case "email":
+      return (
+        <a className="home-link" href={`mailto:${node.address}`}>
+          {node.address}
+        </a>
+      );
+    case "video":
+      return node.label;
+  }
+}
+
+const PILL = "[data-pill]";
+
+/* Pills a reader can currently see: not inside closed content, not swapped out. */
+function reachablePills(root: HTMLElement) {
+  return Array.from(root.querySelectorAll<HTMLElement>(PILL)).filter(
+    (pill) => !pill.closest("[inert]") && pill.getClientRects().length > 0,
+  );
+}
+
+const NEXT_KEYS = new Set(["ArrowRight", "ArrowDown"]);
+const PREV_KEYS = new Set(["ArrowLeft", "ArrowUp"]);
+
+/*
+ * Roving focus: Tab stops on one pill, and the arrow keys (plus Home/End) move
+ * between the pills in reading order. tabindex is written to the DOM here
+ * rather than rendered, since which pill holds it depends on what is open —
+ * and, after leaving prose mode, on pills that have only just mounted again.
+ */
+function useRovingPills(prose: boolean) {
+  const { isOpen } = useHome();
+  const rootRef = useRef<HTMLDivElement>(null);
+  const current = useRef<HTMLElement | null>(null);
+
+  const settle = useCallback((focus: HTMLElement | null) => {
+    const root = rootRef.current;
+    if (!root) return;
+    const pills = reachablePills(root);
+    const next =
+      focus && pills.includes(focus)
+        ? focus
+        : (pills.find((pill) => pill === current.current) ?? pills[0]);
+    root.querySelectorAll<HTMLElement>(PILL).forEach((pill) => {
+      pill.tabIndex = pill === next ? 0 : -1;
+    });
+    current.current = next ?? null;
+  }, []);
+
+  // Opening or closing a pill changes which ones are reachable.
+  useEffect(() => settle(null), [settle, isOpen, prose]);
+
+  const onFocus = (e: React.FocusEvent<HTMLElement>) => {
+    if (e.target.matches(PILL)) settle(e.target);
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLElement>) => {
+    const root = rootRef.current;
+    const target = e.target as HTMLElement;
+    if (!root || !target.matches(PILL)) return;
+    const pills = reachablePills(root);
+    const i = pills.indexOf(target);
+    let next: HTMLElement | undefined;
+    if (NEXT_KEYS.has(e.key)) next = pills[(i + 1) % pills.length];
+    else if (PREV_KEYS.has(e.key)) next = pills[(i - 1 + pills.length) % pills.length];
+    else if (e.key === "Home") next = pills[0];
+    else if (e.key === "End") next = pills[pills.length - 1];
+    if (!next) return;
+    e.preventDefault();
+    settle(next);
+    next.focus();
+  };
+
+  return { rootRef, onFocus, onKeyDown };
+}
+
+function isTyping(target: EventTarget | null) {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(target.tagName))
+  );
+}
+
+/* "+" opens every pill, "-" closes them all. */
+function useExpandShortcuts() {
+  const { setAllOpen } = useHome();
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || isTyping(e.target)) return;
+      if (e.key === "+") setAllOpen(true);
+      else if (e.key === "-") setAllOpen(false);
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [setAllOpen]);
+}
+
+/*
+ * Bio text eases 1 → 0.85 across the first 10% of the works grid's run, and
+ * back out again over the last 10%. Wide layout only: in the compact one the
+ * bio scrolls away in flow instead.
+ */
+const INTRO_SCALE: ScrollEffect = {
+  track: () => document.querySelector(".portfolio-grid-collection-wrapper"),
+  range: [0, 0.1, 0.9, 1],
+  transform: (t) => scale3d(1 - t * 0.15),
+  when: ({ compact }) => !compact,
+};
+
+export function HomeBio() {
+  const { videoState, setAllOpen } = useHome();
+  const [prose, setProse] = useState(false);
+  const { rootRef, onFocus, onKeyDown } = useRovingPills(prose);
+  useExpandShortcuts();
+  const introRef = useScrollEffect<HTMLDivElement>(INTRO_SCALE);
+
+  return (
+    <div className="home-multiply" data-state={videoState}>
+      <div className="intro-scale" ref={introRef}>
+        <div className="home-container" ref={rootRef} onFocus={onFocus} onKeyDown={onKeyDown}>
+          {prose
+            ? NUMBERED_BIO.map((paragraph, i) => (
+                <p key={i} className="home-prose">
+                  <ProseNodes nodes={paragraph} />
+                </p>
+              ))
+            : NUMBERED_BIO.map((paragraph, i) => (
+                <span
+                  key={i}
+                  className="home-text"
+                  style={{ "--delay": i } as React.CSSProperties}
+                >
+                  <BioNodes nodes={paragraph} />
+                </span>
+              ))}
+
+          <div className="bio-tools" role="group" aria-label="Bio">
+            {!prose && (
+              <>
+                <button
+                  type="button"
+                  className="bio-tool"
+                  aria-keyshortcuts="+"
+                  onClick={() => setAllOpen(true)}
+                >
+                  Open all
+                </button>
+                <button
+                  type="button"
+                  className="bio-tool"
+                  aria-keyshortcuts="-"
+                  onClick={() => setAllOpen(false)}
+                >
+                  Close all
+                </button>
+              </>
+            )}
+            <button
+              type="button"
+              className="bio-tool"
+              aria-pressed={prose}
+              onClick={() => setProse((p) => !p)}
+            >
+              Read full bio
+            </button>
+          </div>
         </div>
       </div>
     </div>
@@ -1,33 +1,62 @@
 "use client";
 
 import { createContext, useCallback, useContext, useMemo, useState } from "react";
+import { TOTAL_REVEALS } from "@/lib/bio";
+import { type Motion, useMotionPolicy } from "./use-motion-policy";
+import { useClipState } from "./use-clip-state";
+import { useRevealState } from "./use-reveal-state";
 
 export type VideoState = "closed" | "preview" | "open";
 
-export const TOTAL_REVEALS = 13;
-
 interface HomeContextValue {
   isOpen: (id: number) => boolean;
   toggle: (id: number) => void;
+  /** Opens or closes every pill at once. */
+  setAllOpen: (open: boolean) => void;
   openCount: number;
   videoState: VideoState;
   setVideoState: (state: VideoState) => void;
+  /** The pill whose own clip (BIO_CLIPS) the video layer is showing in place
+   *  of the default, or null. Orthogonal to videoState: a clip can preview or
+   *  sit dimmed behind the bio the same way. */
+  clip: number | null;
+  showClip: (id: number, opened?: boolean) => void;
+  hideClip: (id: number) => void;
   /** Nav links collapse under the first one while scrolling down; the reveal
    *  counter rides the same signal so both slide away together. */
   navStacked: boolean;
   setNavStacked: (stacked: boolean) => void;
+  /** "reduced" under prefers-reduced-motion or Save-Data, unless the visitor
+   *  has flipped the motion toggle. Scroll effects, tilt and autoplay key off it. */
+  motion: Motion;
+  setMotion: (motion: Motion) => void;
 }
 
 const HomeContext = createContext<HomeContextValue | null>(null);
 
 export function HomeProvider({ children }: { children: React.ReactNode }) {
-  const [open, setOpen] = useState<Record<number, boolean>>({});
+  const [open, setOpen] = useRevealState();
   const [videoState, setVideoState] = useState<VideoState>("closed");
   const [navStacked, setNavStacked] = useState(false);
+  const { motion, setMotion } = useMotionPolicy();
+  const { clip, showClip, hideClip } = useClipState();
 
   const toggle = useCallback((id: number) => {
     setOpen((prev) => ({ ...prev, [id]: !prev[id] }));
-  }, []);
+  }, [setOpen]);
+
+  const setAllOpen = useCallback(
+    (next: boolean) => {
+      if (!next) {
+        setOpen({});
+        return;
+      }
+      const all: Record<number, boolean> = {};
+      for (let id = 1; id <= TOTAL_REVEALS; id++) all[id] = true;
+      setOpen(all);
+    },
+    [setOpen],
+  );
 
   const isOpen = useCallback((id: number) => Boolean(open[id]), [open]);
 
@@ -40,13 +69,31 @@ export function HomeProvider({ children }: { children: React.ReactNode }) {
     () => ({
       isOpen,
       toggle,
+      setAllOpen,
       openCount,
       videoState,
       setVideoState,
+      clip,
+      showClip,
+      hideClip,
       navStacked,
       setNavStacked,
+      motion,
+      setMotion,
     }),
-    [isOpen, toggle, openCount, videoState, navStacked],
+    [
+      isOpen,
+      toggle,
+      setAllOpen,
+      openCount,
+      videoState,
+      clip,
+      showClip,
+      hideClip,
+      navStacked,
+      motion,
+      setMotion,
+    ],
   );
 
   return <HomeContext.Provider value={value}>{children}</HomeContext.Provider>;
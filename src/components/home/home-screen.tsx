@@ -0,0 +1,58 @@
+"use client";
+
+import { Nav } from "@/components/nav";
+import { PortfolioGrid } from "@/components/works/portfolio-grid";
+import type { Media, WorkItem } from "@/types/content";
+import { Counter } from "./counter";
+import { HomeBio } from "./home-bio";
+import { HomeProvider, useHome } from "./home-context";
+import { MotionToggle } from "./motion-toggle";
+import { useScrollEffects } from "./use-scroll-effects";
+import { VideoBackground } from "./video-background";
+
+interface HomeScreenProps {
+  items: WorkItem[];
+  video: Media;
+}
+
+/*
+ * Bio and Works are one continuous page: the bio is a fixed, always-centred
+ * layer and the two 150vh spacers give it scroll room either side, so momentum
+ * doesn't fling you straight past it into the tiles. Scrolling off either end
+ * wraps around; in the compact layout only the tail spacer remains, as the
+ * screen the loop cuts from.
+ */
+function HomeLayers({ items, video }: HomeScreenProps) {
+  const { navStacked } = useHome();
+  useScrollEffects();
+
+  return (
+    <>
+      {/*
+        The bio blends against the video. Keeping them in one wrapper lets the
+        compact layout scroll them together — see .bio-stage in globals.css.
+      */}
+      <div className="bio-stage">
+        <VideoBackground video={video} />
+        <HomeBio />
+      </div>
+
+      <Nav stacked={navStacked} />
+      <Counter />
+      <MotionToggle />
+
+      <div className="hero-spacer" />
+      <PortfolioGrid items={items} />
+      <div className="hero-spacer is-tail" />
+    </>
+  );
+}
+
+/* Content is read on the server (src/lib/content.ts) and handed in as props. */
+export function HomeScreen(props: HomeScreenProps) {
+  return (
+    <HomeProvider>
+      <HomeLayers {...props} />
+    </HomeProvider>
+  );
+}
@@ -0,0 +1,24 @@
+"use client";
+
+import { useHome } from "./home-context";
+
+/*
+ * Lets a visitor overrule the motion policy either way: calm the page despite
+ * their OS settings, or bring the video and scroll effects back on a Save-Data
+ * connection.
+ */
+export function MotionToggle() {
+  const { motion, setMotion } = useHome();
+  const reduced = motion === "reduced";
+
+  return (
+    <button
+      type="button"
+      className="motion-toggle"
+      aria-pressed={reduced}
+      onClick={() => setMotion(reduced ? "full" : "reduced")}
+    >
+      Reduce motion
+    </button>
+  );
+}
@@ -9,10 +9,14 @@ import { useHome } from "./home-context";
  * Trigger and Content are exported separately because two pills in the bio
  * ("Aerospace", "LinkedIn") keep their trigger inside a nowrap span while the
  * content sits outside it, so the phrase never breaks across a line.
+ *
+ * Closed content is still painted but is hidden from assistive tech and made
+ * inert, so a screen reader or the Tab key only reaches what a sighted reader
+ * can actually read. Triggers carry data-pill for HomeBio's arrow-key focus.
  */
 
 export function RevealTrigger({ id, children }: { id: number; children: React.ReactNode }) {
-  const { isOpen, toggle } = useHome();
+  const { isOpen, toggle, showClip, hideClip } = useHome();
   const state = isOpen(id) ? "open" : "closed";
 
   return (
@@ -21,8 +25,14 @@ export function RevealTrigger({ id, children }: { id: number; children: React.Re
       aria-expanded={isOpen(id)}
       aria-controls={`reveal-${id}`}
       data-state={state}
+      data-pill={id}
       className="reveal-trigger"
-      onClick={() => toggle(id)}
+      onClick={() => {
+        if (!isOpen(id)) showClip(id, true);
+        toggle(id);
+      }}
+      onMouseEnter={() => showClip(id)}
+      onMouseLeave={() => hideClip(id)}
     >
       {children}
     </button>
@@ -31,9 +41,16 @@ export function RevealTrigger({ id, children }: { id: number; children: React.Re
 
 export function RevealContent({ id, children }: { id: number; children: React.ReactNode }) {
   const { isOpen } = useHome();
+  const open = isOpen(id);
 
   return (
-    <span className="reveal-content" data-state={isOpen(id) ? "open" : "closed"} id={`reveal-${id}`}>
+    <span
+      className="reveal-content"
+      data-state={open ? "open" : "closed"}
+      id={`reveal-${id}`}
+      aria-hidden={!open}
+      inert={!open}
+    >
       {children}
     </span>
   );
@@ -0,0 +1,164 @@
+"use client";
+
+import { useCallback } from "react";
+
+/*
+ * The home page's scroll-driven transforms, declared rather than hard-coded.
+ * A component registers an element with a progress window, an easing and a
+ * transform; one engine, started by useScrollEffects, runs every registered
+ * effect once per animation frame. All elements are measured first and all
+ * transforms written after, so a frame costs one layout however many effects
+ * there are.
+ */
+
+/** What every effect sees on a given frame. */
+export interface ScrollFrame {
+  /** Viewport height. */
+  vh: number;
+  /** The in-flow phone / short-screen layout — see isCompact(). */
+  compact: boolean;
+}
+
+export interface ScrollEffect {
+  /** The element whose passage through the viewport is measured, if not the
+   *  target itself. Progress runs 0 → 1 from its top meeting the bottom of the
+   *  viewport to its bottom leaving the top. */
+  track?: () => Element | null;
+  /** Where in that progress the effect runs. [from, to] ramps 0 → 1; a second
+   *  pair, [from, to, back, end], holds at 1 and ramps back down to 0. */
+  range: [number, number] | [number, number, number, number];
+  /** Applied to each ramp. Linear by default. */
+  easing?: (t: number) => number;
+  /** Eased value → CSS transform for the target. */
+  transform: (t: number, frame: ScrollFrame) => string;
+  /** When it returns false the effect is off and the stylesheet's transform stands. */
+  when?: (frame: ScrollFrame) => boolean;
+}
+
+/** outQuad — nathan's tile easing. */
+export function easeOutQuad(t: number) {
+  return 1 - (1 - t) * (1 - t);
+}
+
+export function scale3d(scale: number) {
+  return `scale3d(${scale}, ${scale}, 1)`;
+}
+
+/*
+ * On narrow or short viewports the bio sits in normal flow instead of a fixed
+ * centred layer, so the intro scale has nothing to act on. Must stay in sync
+ * with the layout media query in globals.css.
+ */
+export function isCompact() {
+  return window.matchMedia("(max-width: 767px), (max-height: 600px)").matches;
+}
+
+function clamp01(value: number) {
+  return Math.min(1, Math.max(0, value));
+}
+
+function ramp(progress: number, from: number, to: number, easing: (t: number) => number) {
+  return easing(clamp01((progress - from) / (to - from)));
+}
+
+function evaluate(effect: ScrollEffect, progress: number) {
+  const easing = effect.easing ?? ((t: number) => t);
+  const [from, to, back, end] = effect.range;
+  const rise = ramp(progress, from, to, easing);
+  if (back === undefined || end === undefined) return rise;
+  return progress < back ? rise : 1 - ramp(progress, back, end, easing);
+}
+
+const registry = new Map<HTMLElement, ScrollEffect>();
+
+let engine: { request: () => void } | null = null;
+
+/* Schedule a frame — for layout changes that no scroll or resize announces. */
+export function requestScrollFrame() {
+  engine?.request();
+}
+
+/** Runs `effect` on `target` until the returned function is called. */
+export function registerScrollEffect(target: HTMLElement, effect: ScrollEffect) {
+  registry.set(target, effect);
+  requestScrollFrame();
+  return () => {
+    registry.delete(target);
+  };
+}
+
+/*
+ * A callback ref that registers the element it is attached to. `effect` should
+ * be a module constant, or at least stable, so the ref isn't re-attached on
+ * every render.
+ */
+export function useScrollEffect<T extends HTMLElement>(effect: ScrollEffect) {
+  return useCallback(
+    (target: T | null) => (target ? registerScrollEffect(target, effect) : undefined),
+    [effect],
+  );
+}
+
+function runEffects(reduced: boolean) {
+  const frame: ScrollFrame = { vh: window.innerHeight, compact: isCompact() };
+
+  // Read everything…
+  const writes: [HTMLElement, string | null][] = [];
+  for (const [target, effect] of registry) {
+    if (reduced || (effect.when && !effect.when(frame))) {
+      writes.push([target, null]);
+      continue;
+    }
+    const tracked = effect.track?.() ?? target;
+    const rect = tracked.getBoundingClientRect();
+    const progress = clamp01((frame.vh - rect.top) / (rect.height + frame.vh));
+    writes.push([target, effect.transform(evaluate(effect, progress), frame)]);
+  }
+
+  // …then write it.
+  for (const [target, transform] of writes) {
+    if (transform === null) target.style.removeProperty("transform");
+    else target.style.transform = transform;
+  }
+}
+
+/*
+ * Starts the engine: every scroll and resize is coalesced into one animation
+ * frame, which runs the registered effects and then `afterEffects` for the
+ * page-level behaviour that isn't a transform. Under reduced motion no effect
+ * runs, and each target falls back to its stylesheet transform.
+ */
+export function startScrollEngine({
+  reduced,
+  afterEffects,
+}: {
+  reduced: boolean;
+  afterEffects: () => void;
+}) {
+  let frame = 0;
+  const update = () => {
+    runEffects(reduced);
+    afterEffects();
+  };
+  const request = () => {
+    if (frame) return;
+    frame = requestAnimationFrame(() => {
+      frame = 0;
+      update();
+    });
+  };
+
+  engine = { request };
+  update();
+
+  // body is the scroll container here, so capture catches its scroll events.
+  document.addEventListener("scroll", request, { capture: true, passive: true });
+  window.addEventListener("resize", request);
+
+  return () => {
+    if (frame) cancelAnimationFrame(frame);
+    if (engine?.request === request) engine = null;
+    document.removeEventListener("scroll", request, { capture: true });
+    window.removeEventListener("resize", request);
+  };
+}
@@ -0,0 +1,59 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { BIO_CLIPS } from "@/lib/bio";
+
+/** How long a freshly opened pill keeps its clip up without the pointer on it. */
+const OPEN_HOLD_MS = 4000;
+
+/*
+ * Which pill's clip the background is showing, if any. A clip stays up while
+ * its pill is hovered, and for OPEN_HOLD_MS after the pill is opened; when
+ * neither holds any more the default video comes back. Pills without a clip
+ * are ignored, so callers needn't check.
+ */
+export function useClipState() {
+  const [clip, setClip] = useState<number | null>(null);
+  const hovered = useRef<number | null>(null);
+  const held = useRef<{ id: number; timer: number } | null>(null);
+
+  const settle = useCallback(() => {
+    setClip(hovered.current ?? held.current?.id ?? null);
+  }, []);
+
+  const showClip = useCallback(
+    (id: number, opened = false) => {
+      if (!BIO_CLIPS[id]) return;
+      if (opened) {
+        if (held.current) window.clearTimeout(held.current.timer);
+        const timer = window.setTimeout(() => {
+          held.current = null;
+          settle();
+        }, OPEN_HOLD_MS);
+        held.current = { id, timer };
+      } else {
+        hovered.current = id;
+      }
+      setClip(id);
+    },
+    [settle],
+  );
+
+  const hideClip = useCallback(
+    (id: number) => {
+      if (hovered.current !== id) return;
+      hovered.current = null;
+      settle();
+    },
+    [settle],
+  );
+
+  useEffect(
+    () => () => {
+      if (held.current) window.clearTimeout(held.current.timer);
+    },
+    [],
+  );
+
+  return { clip, showClip, hideClip };
+}
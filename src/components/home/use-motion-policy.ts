@@ -0,0 +1,99 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+
+export type Motion = "full" | "reduced";
+
+const REDUCED_QUERY = "(prefers-reduced-motion: reduce)";
+const STORAGE_KEY = "home-motion";
+
+/* Network Information API — Chromium only, so everything about it is optional. */
+interface Connection extends EventTarget {
+  saveData?: boolean;
+}
+
+function connection() {
+  return (navigator as Navigator & { connection?: Connection }).connection;
+}
+
+function systemMotion(): Motion {
+  const saveData = connection()?.saveData === true;
+  return saveData || window.matchMedia(REDUCED_QUERY).matches ? "reduced" : "full";
+}
+
+function readOverride(): Motion | null {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored === "full" || stored === "reduced" ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+/*
+ * The policy as it stands right now, for code that runs away from the home
+ * page — where the hook isn't mounted and `data-motion` is gone — but must
+ * still honour a visitor's saved choice.
+ */
+export function currentMotion(): Motion {
+  return readOverride() ?? systemMotion();
+}
+
+/*
+ * Whether the home page should move. The system answer comes from
+ * prefers-reduced-motion and Save-Data and follows them live; a visitor's
+ * explicit choice from the toggle overrides it and is remembered across visits.
+ * Choosing whatever the system already says clears the override, so a later
+ * change of OS setting is picked up again.
+ *
+ * Like the other home state this resolves after mount; the static HTML is the
+ * full-motion page, minus autoplay, which the video components start themselves.
+ */
+export function useMotionPolicy() {
+  const [system, setSystem] = useState<Motion>("full");
+  const [override, setOverrideState] = useState<Motion | null>(null);
+
+  useEffect(() => {
+    const query = window.matchMedia(REDUCED_QUERY);
+    const conn = connection();
+    const sync = () => setSystem(systemMotion());
+    const restore = () => {
+      sync();
+      setOverrideState(readOverride());
+    };
+    restore();
+    query.addEventListener("change", sync);
+    conn?.addEventListener("change", sync);
+    return () => {
+      query.removeEventListener("change", sync);
+      conn?.removeEventListener("change", sync);
+    };
+  }, []);
+
+  const setMotion = useCallback(
+    (next: Motion) => {
+      const value = next === system ? null : next;
+      setOverrideState(value);
+      try {
+        if (value) window.localStorage.setItem(STORAGE_KEY, value);
+        else window.localStorage.removeItem(STORAGE_KEY);
+      } catch {
+        // Applies for this visit only.
+      }
+    },
+    [system],
+  );
+
+  const motion = override ?? system;
+
+  // A hook for the stylesheet: transitions and keyframes soften under it.
+  useEffect(() => {
+    const root = document.documentElement;
+    root.dataset.motion = motion;
+    return () => {
+      delete root.dataset.motion;
+    };
+  }, [motion]);
+
+  return { motion, setMotion };
+}
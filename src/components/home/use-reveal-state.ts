@@ -0,0 +1,95 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { TOTAL_REVEALS } from "@/lib/bio";
+
+export type RevealState = Record<number, boolean>;
+
+/* ?r=1,2,4 opens those pills on load. */
+const URL_PARAM = "r";
+const STORAGE_KEY = "home-reveals";
+
+function parseIds(value: string | null): number[] | null {
+  if (value === null) return null;
+  return value
+    .split(",")
+    .map(Number)
+    .filter((id) => Number.isInteger(id) && id >= 1 && id <= TOTAL_REVEALS);
+}
+
+function toState(ids: number[]): RevealState {
+  return Object.fromEntries(ids.map((id) => [id, true]));
+}
+
+function openIds(state: RevealState) {
+  return Object.keys(state)
+    .map(Number)
+    .filter((id) => state[id])
+    .sort((a, b) => a - b);
+}
+
+function readStored() {
+  try {
+    return parseIds(window.sessionStorage.getItem(STORAGE_KEY));
+  } catch {
+    // Storage blocked (private mode, sandboxed iframe) — start closed.
+    return null;
+  }
+}
+
+function idsFromUrl() {
+  return parseIds(new URLSearchParams(window.location.search).get(URL_PARAM));
+}
+
+/*
+ * The open/closed map behind the bio's pills, kept beyond a single mount. A
+ * shared ?r= link wins; otherwise the tab's sessionStorage brings the pills
+ * back after a reload. Every change is written to both with replaceState, so
+ * the current history entry is always a shareable copy of the bio as it
+ * stands and back/forward land on the pills each entry was left with.
+ *
+ * Like ?tag=, this is read after mount rather than through useSearchParams:
+ * the first render is all-closed, matching the static HTML.
+ */
+export function useRevealState() {
+  const [open, setOpen] = useState<RevealState>({});
+  const restored = useRef(false);
+
+  useEffect(() => {
+    const restore = () => {
+      const ids = idsFromUrl() ?? readStored();
+      if (ids) setOpen(toState(ids));
+    };
+    const sync = () => setOpen(toState(idsFromUrl() ?? []));
+    restore();
+    window.addEventListener("popstate", sync);
+    return () => window.removeEventListener("popstate", sync);
+  }, []);
+
+  useEffect(() => {
+    // The first pass still holds the all-closed initial state; writing it out
+    // would wipe the ?r= we are about to restore from.
+    if (!restored.current) {
+      restored.current = true;
+      return;
+    }
+    const ids = openIds(open).join(",");
+
+    try {
+      window.sessionStorage.setItem(STORAGE_KEY, ids);
+    } catch {
+      // Not persisted this time; the URL still carries it.
+    }
+
+    const url = new URL(window.location.href);
+    if (ids) url.searchParams.set(URL_PARAM, ids);
+    else url.searchParams.delete(URL_PARAM);
+    // Commas read better than %2C in a link someone will paste.
+    const href = url.toString().replace(/%2C/g, ",");
+    if (href !== window.location.href) {
+      window.history.replaceState(window.history.state, "", href);
+    }
+  }, [open]);
+
+  return [open, setOpen] as const;
+}
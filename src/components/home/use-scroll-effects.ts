@@ -1,7 +1,9 @@
 "use client";
 
 import { useEffect, useRef } from "react";
+import { takeHomeScroll } from "@/components/works/work-transition";
 import { useHome } from "./home-context";
+import { startScrollEngine } from "./scroll-engine";
 
 function scrollTop() {
   return Math.max(
@@ -11,24 +13,8 @@ function scrollTop() {
   );
 }
 
-function track(progress: number, from: number, to: number) {
-  return Math.min(1, Math.max(0, (progress - from) / (to - from)));
-}
-
-/** outQuad — nathan's tile easing, used for the scale. */
-function ramp(progress: number, from: number, to: number) {
-  const t = track(progress, from, to);
-  return 1 - (1 - t) * (1 - t);
-}
-
-/*
- * On narrow or short viewports the bio sits in normal flow instead of a fixed
- * centred layer, so the intro scale and the scroll wrap have nothing to act on.
- * Must stay in sync with the layout media query in globals.css.
- */
-function isCompact() {
-  return window.matchMedia("(max-width: 767px), (max-height: 600px)").matches;
-}
+/** How far, in pixels, a pull-down at the top must travel to wrap to the tail. */
+const PULL_THRESHOLD = 64;
 
 function scrollMax() {
   const se = document.scrollingElement || document.documentElement;
@@ -40,12 +26,15 @@ function scrollMax() {
 
 /*
  * Every scroll-driven behaviour on the home page, ported from the design's
- * updateScroll(). Styles are written straight to the DOM rather than through
- * state, so a scroll frame never triggers a React render; only the single
- * discrete flag (nav stack, which the counter also rides) goes through context.
+ * updateScroll(). The transforms — the bio's intro scale, the tiles' entrance —
+ * are registered by their components with the scroll engine; this hook starts
+ * it and adds what isn't a transform: the nav stack and the wrap-around.
+ * Nothing here goes through state except that single discrete nav flag (which
+ * the counter also rides), so a scroll frame never triggers a React render.
  */
 export function useScrollEffects() {
-  const { navStacked, setNavStacked } = useHome();
+  const { navStacked, setNavStacked, motion } = useHome();
+  const reduced = motion === "reduced";
 
   // Read the latest flag inside the scroll handler without resubscribing it on
   // every toggle.
@@ -56,48 +45,25 @@ export function useScrollEffects() {
 
   const lastY = useRef(0);
 
+  // Back from a project page: land where its tile was left (see saveHomeScroll).
+  // Declared first so the engine's first frame measures the restored position.
   useEffect(() => {
-    const update = () => {
-      const vh = window.innerHeight;
-
-      const compact = isCompact();
-
-      // Bio text eases 1 → 0.85 across the first 10% of the works run, and back
-      // out again over the last 10%.
-      const collection = document.querySelector(".portfolio-grid-collection-wrapper");
-      const intro = document.querySelector<HTMLElement>(".intro-scale");
-      if (collection && intro && !compact) {
-        const rect = collection.getBoundingClientRect();
-        const total = rect.height + vh;
-        const progress = Math.min(1, Math.max(0, (vh - rect.top) / total));
-        const t =
-          progress < 0.5
-            ? Math.min(1, progress / 0.1)
-            : Math.min(1, (1 - progress) / 0.1);
-        const scale = 1 - t * 0.15;
-        intro.style.transform = `scale3d(${scale}, ${scale}, 1)`;
-      }
-
-      // Tile entrance: scale 1.2 → 1 across 15–30% of the tile's travel, on
-      // nathan's outQuad. The media itself stays fully visible throughout.
-      document.querySelectorAll<HTMLElement>(".portfolio-grid-item").forEach((item) => {
-        const rect = item.getBoundingClientRect();
-        const total = rect.height + vh;
-        const progress = Math.min(1, Math.max(0, (vh - rect.top) / total));
-
-        // Narrow viewports enter from 1.04 rather than 1.2; a 20% overscale
-        // hangs off both edges of a phone screen.
-        const from = compact ? 1.04 : 1.2;
-        const scale = from - ramp(progress, 0.15, 0.3) * (from - 1);
-        item.style.transform = `scale3d(${scale}, ${scale}, 1)`;
-      });
+    const y = takeHomeScroll();
+    if (y === null) return;
+    window.scrollTo(0, y);
+    document.body.scrollTop = y;
+  }, []);
 
+  useEffect(() => {
+    const afterEffects = () => {
       const y = scrollTop();
 
       // Past the tail spacer the view matches the top, so wrap around rather
-      // than dead-ending.
+      // than dead-ending. The compact layout's spacer can't match its in-flow
+      // bio, so it is a screen of black to cut from instead. Not under reduced
+      // motion, where the page just ends.
       const max = scrollMax();
-      if (!compact && max > 0 && y >= max - 2) {
+      if (!reduced && max > 0 && y >= max - 2) {
         document.body.scrollTop = 0;
         const se = document.scrollingElement || document.documentElement;
         se.scrollTop = 0;
@@ -116,44 +82,43 @@ export function useScrollEffects() {
 
     // Wheeling up at the very top jumps to the tail, so momentum carries back
     // up through the tiles — the other half of the loop.
-    const onWheel = (e: WheelEvent) => {
-      if (e.deltaY < 0 && scrollTop() <= 1 && !isCompact()) {
-        const max = scrollMax();
-        if (max > 8) {
-          window.scrollTo(0, max - 8);
-          lastY.current = max - 8;
-        }
+    const jumpToTail = () => {
+      const max = scrollMax();
+      if (max > 8) {
+        window.scrollTo(0, max - 8);
+        lastY.current = max - 8;
       }
     };
 
-    /*
-     * update() reads layout (getBoundingClientRect) and then writes transforms,
-     * so running it per scroll event forces a synchronous reflow each time.
-     * Coalescing into one animation frame caps it at the refresh rate and keeps
-     * the read/write in the same frame.
-     */
-    let frame = 0;
-    const onScroll = () => {
-      if (frame) return;
-      frame = requestAnimationFrame(() => {
-        frame = 0;
-        update();
-      });
+    const onWheel = (e: WheelEvent) => {
+      if (e.deltaY < 0 && scrollTop() <= 1 && !reduced) jumpToTail();
     };
 
-    lastY.current = scrollTop();
-    update();
+    // The touch version: a finger that keeps pulling down at the very top, as
+    // if to overscroll, does the same.
+    let pull: number | null = null;
+    const onTouchStart = (e: TouchEvent) => {
+      pull = scrollTop() <= 1 ? e.touches[0].clientY : null;
+    };
+    const onTouchMove = (e: TouchEvent) => {
+      if (pull === null || reduced) return;
+      if (e.touches[0].clientY - pull > PULL_THRESHOLD) {
+        pull = null;
+        jumpToTail();
+      }
+    };
 
-    // body is the scroll container here, so capture catches its scroll events.
-    document.addEventListener("scroll", onScroll, { capture: true, passive: true });
+    lastY.current = scrollTop();
+    const stop = startScrollEngine({ reduced, afterEffects });
     window.addEventListener("wheel", onWheel, { passive: true });
-    window.addEventListener("resize", onScroll);
+    window.addEventListener("touchstart", onTouchStart, { passive: true });
+    window.addEventListener("touchmove", onTouchMove, { passive: true });
 
     return () => {
-      if (frame) cancelAnimationFrame(frame);
-      document.removeEventListener("scroll", onScroll, { capture: true });
+      stop();
       window.removeEventListener("wheel", onWheel);
-      window.removeEventListener("resize", onScroll);
+      window.removeEventListener("touchstart", onTouchStart);
+      window.removeEventListener("touchmove", onTouchMove);
     };
-  }, [setNavStacked]);
+  }, [setNavStacked, reduced]);
 }
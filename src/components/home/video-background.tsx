@@ -1,21 +1,100 @@
 "use client";
 
 import { useCallback, useEffect, useRef, useState } from "react";
+import { BIO_CLIPS } from "@/lib/bio";
+import { rankVideoSources } from "@/lib/video-sources";
+import type { Media } from "@/types/content";
 import { useHome } from "./home-context";
 
-export function VideoBackground() {
-  const { videoState, setVideoState } = useHome();
+/*
+ * Which of the video's sources to play. The static HTML carries none — the
+ * choice depends on the viewport and connection — so the poster holds the
+ * layer until one is picked and can play. A source that fails to load hands
+ * over to the next; when they have all failed, the poster simply stays.
+ */
+function useVideoSource(video: Media) {
+  const [candidates, setCandidates] = useState<string[]>([]);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    const choose = () => {
+      setCandidates(rankVideoSources(video));
+      setAttempt(0);
+    };
+    choose();
+  }, [video]);
+
+  const src = candidates[attempt];
+  const failed = candidates.length > 0 && src === undefined;
+  const next = useCallback(() => setAttempt((a) => a + 1), []);
+  return { src, failed, next };
+}
+
+/*
+ * One pill's clip, stacked over the default video and crossfaded in while the
+ * pill holds it (see useClipState). Nothing is fetched until the pill first
+ * asks; after that the clip stays loaded, so coming back to it is instant.
+ */
+function ClipLayer({ clip, active }: { clip: Media; active: boolean }) {
+  const { videoState } = useHome();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const { src, failed, next } = useVideoSource(clip);
+  const [requested, setRequested] = useState(false);
+  const [ready, setReady] = useState(false);
+  if (active && !requested) setRequested(true);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (active) video.play().catch(() => {});
+    else video.pause();
+  }, [active, src, requested]);
+
+  if (failed) return null;
+
+  return (
+    <video
+      ref={videoRef}
+      className="video-background video-clip"
+      src={requested ? src : undefined}
+      playsInline
+      loop
+      muted
+      preload="auto"
+      disablePictureInPicture
+      data-ready={ready}
+      data-active={active}
+      data-state={videoState}
+      onCanPlay={() => setReady(true)}
+      onError={() => {
+        setReady(false);
+        next();
+      }}
+    />
+  );
+}
+
+export function VideoBackground({ video }: { video: Media }) {
+  const { videoState, setVideoState, motion, clip } = useHome();
   const videoRef = useRef<HTMLVideoElement | null>(null);
+  const { src, failed, next } = useVideoSource(video);
   const [ready, setReady] = useState(false);
   const [cursor, setCursor] = useState<{ x: number; y: number } | null>(null);
 
-  // Sound only while open; nudge playback if the browser paused us.
+  /*
+   * Sound only while open; nudge playback if the browser paused us. There is no
+   * autoPlay attribute, so this is also what starts the loop — and under
+   * reduced motion it doesn't, leaving the poster up until "take pictures"
+   * opens the video.
+   */
+  const plays = motion === "full" || videoState === "open";
   useEffect(() => {
     const video = videoRef.current;
     if (!video) return;
     video.muted = videoState !== "open";
-    if (video.paused) video.play().catch(() => {});
-  }, [videoState]);
+    if (!plays) video.pause();
+    else if (video.paused) video.play().catch(() => {});
+  }, [videoState, plays, src]);
 
   useEffect(() => {
     if (videoState !== "open") return;
@@ -26,10 +105,14 @@ export function VideoBackground() {
     return () => window.removeEventListener("keydown", onKeyDown);
   }, [videoState, setVideoState]);
 
-  // canplay can fire before hydration attaches the listener.
+  /*
+   * Ready once there's a frame to show: a paused, reduced-motion video may
+   * never buffer on to canplay. loadeddata can fire before hydration attaches
+   * the listener.
+   */
   const attachVideo = useCallback((video: HTMLVideoElement | null) => {
     videoRef.current = video;
-    if (video && video.readyState >= 3) setReady(true);
+    if (video && video.readyState >= 2) setReady(true);
   }, []);
 
   const open = videoState === "open";
@@ -41,20 +124,46 @@ export function VideoBackground() {
       onMouseMove={open ? (e) => setCursor({ x: e.clientX, y: e.clientY }) : undefined}
       onClick={open ? () => setVideoState("closed") : undefined}
     >
-      <video
-        ref={attachVideo}
-        className="video-background"
-        src="/videos/video-background.mp4"
-        autoPlay
-        playsInline
-        loop
-        muted
-        preload="auto"
-        disablePictureInPicture
-        data-ready={ready}
-        data-state={videoState}
-        onCanPlay={() => setReady(true)}
-      />
+      {video.poster && (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+          className="video-background video-poster"
+          src={video.poster}
+          alt=""
+          data-ready={!ready || failed || !plays}
+          data-state={videoState}
+        />
+      )}
+      {!failed && (
+        <video
+          ref={attachVideo}
+          className="video-background"
+          src={src}
+          playsInline
+          loop
+          muted
+          // Under reduced motion, enough to show the first frame in place of
+          // the loop; without a poster, "none" would leave the layer blank.
+          preload={motion === "full" ? "auto" : "metadata"}
+          disablePictureInPicture
+          data-ready={ready}
+          data-state={videoState}
+          onLoadedData={() => setReady(true)}
+          onError={() => {
+            setReady(false);
+            next();
+          }}
+        />
+      )}
+      {/* Clips are part of the ambient loop: not under reduced motion, and not
+          over the default video once it is open with sound. */}
+      {Object.entries(BIO_CLIPS).map(([id, media]) => (
+        <ClipLayer
+          key={id}
+          clip={media}
+          active={clip === Number(id) && motion === "full" && !open}
+        />
+      ))}
       {open && (
         <button
           type="button"
@@ -0,0 +1,12 @@
+/*
+ * Structured data goes in as a plain <script>. "<" is escaped so a string in
+ * the data can never close the tag early.
+ */
+export function JsonLd({ data }: { data: object }) {
+  return (
+    <script
+      type="application/ld+json"
+      dangerouslySetInnerHTML={{ __html: JSON.stringify(data).replace(/</g, "\\u003c") }}
+    />
+  );
+}
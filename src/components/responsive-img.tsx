@@ -0,0 +1,46 @@
+import type { Media } from "@/types/content";
+
+/*
+ * An <img> for any Media the image pipeline has seen: srcset from the
+ * generated widths, intrinsic size so the box is reserved before the file
+ * arrives, and the tiny placeholder painted behind it until it does. Media the
+ * pipeline hasn't seen (no manifest yet) renders as a plain <img>.
+ *
+ * `sizes` is the caller's to give, since only the caller knows how wide its
+ * frame renders.
+ */
+export function ResponsiveImg({
+  media,
+  sizes,
+  className,
+  lazy = false,
+}: {
+  media: Media;
+  sizes: string;
+  className?: string;
+  lazy?: boolean;
+}) {
+  return (
+    // eslint-disable-next-line @next/next/no-img-element
+    <img
+      className={className}
+      src={media.src}
+      srcSet={media.srcSet}
+      sizes={media.srcSet ? sizes : undefined}
+      alt={media.alt}
+      width={media.width}
+      height={media.height}
+      loading={lazy ? "lazy" : undefined}
+      decoding="async"
+      style={
+        media.placeholder
+          ? {
+              backgroundImage: `url(${media.placeholder})`,
+              backgroundSize: "cover",
+              backgroundPosition: "center",
+            }
+          : undefined
+      }
+    />
+  );
+}
@@ -0,0 +1,83 @@
+import { Children } from "react";
+import { ResponsiveImg } from "@/components/responsive-img";
+import { renderBlocks, type BlockRenderer } from "@/lib/markdown-blocks";
+import type { BodyBlock } from "@/types/content";
+
+/*
+ * Renders a write-up's BodyBlocks (see src/lib/markdown-blocks.ts) into the
+ * project page's .page-body. Server-rendered; nothing here needs the client.
+ * The feeds render the same blocks to HTML through the same walk.
+ */
+
+const PAGE: BlockRenderer<React.ReactNode> = {
+  text: (text) => text,
+  mark: (mark, content) =>
+    mark === "bold" ? (
+      <strong>{content}</strong>
+    ) : mark === "italic" ? (
+      <em>{content}</em>
+    ) : (
+      <code className="page-inline-code">{content}</code>
+    ),
+  link: (href, content) => {
+    const external = /^https?:\/\//.test(href);
+    return (
+      <a href={href} {...(external ? { target: "_blank", rel: "noopener" } : {})}>
+        {content}
+      </a>
+    );
+  },
+  // toArray keys the runs, so React doesn't warn about a bare list.
+  runs: (runs) => Children.toArray(runs),
+  paragraph: (content) => <p>{content}</p>,
+  heading: (level, text) =>
+    level === 2 ? (
+      <h2 className="page-subhead">{text}</h2>
+    ) : (
+      <h3 className="page-minorhead">{text}</h3>
+    ),
+  figure: (media, caption) => (
+    <figure className="page-figure">
+      <ResponsiveImg media={media} sizes="(max-width: 767px) 100vw, 624px" lazy />
+      {caption && <figcaption>{caption}</figcaption>}
+    </figure>
+  ),
+  video: (media, caption) => (
+    <figure className="page-figure">
+      <video
+        src={media.src}
+        poster={media.poster}
+        aria-label={media.alt}
+        controls
+        playsInline
+        preload="metadata"
+      />
+      {caption && <figcaption>{caption}</figcaption>}
+    </figure>
+  ),
+  quote: (content, cite) => (
+    <blockquote className="page-quote">
+      <p>{content}</p>
+      {cite && <cite>— {cite}</cite>}
+    </blockquote>
+  ),
+  list: (ordered, items) => {
+    const List = ordered ? "ol" : "ul";
+    return (
+      <List className="page-list">
+        {items.map((item, i) => (
+          <li key={i}>{item}</li>
+        ))}
+      </List>
+    );
+  },
+  code: (code, language) => (
+    <pre className="page-code" data-language={language}>
+      <code>{code}</code>
+    </pre>
+  ),
+};
+
+export function BodyBlocks({ blocks }: { blocks: BodyBlock[] }) {
+  return Children.toArray(renderBlocks(blocks, PAGE));
+}
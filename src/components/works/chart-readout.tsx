@@ -0,0 +1,100 @@
+"use client";
+
+import { useRef, useState } from "react";
+import type { CHART_BOX, ChartPoint } from "@/lib/telemetry";
+
+/*
+ * The interactive layer of a telemetry chart. Wraps the server-drawn SVG,
+ * marks the data point nearest the pointer (or the one stepped to with the
+ * arrow keys) and reads its values out underneath.
+ */
+export function ChartReadout({
+  box,
+  points,
+  xLabel,
+  yLabel,
+  label,
+  children,
+}: {
+  /** The chart's viewBox and margins — passed in, since lib/telemetry reads
+   *  files and stays on the server. */
+  box: typeof CHART_BOX;
+  points: ChartPoint[];
+  xLabel: string;
+  yLabel: string;
+  label: string;
+  children: React.ReactNode;
+}) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [active, setActive] = useState<number | null>(null);
+  const { width, height, top, bottom } = box;
+  const point = active === null ? null : points[active];
+
+  const nearest = (e: React.PointerEvent) => {
+    const matrix = svgRef.current?.getScreenCTM();
+    if (!matrix || points.length === 0) return;
+    const at = new DOMPoint(e.clientX, e.clientY).matrixTransform(matrix.inverse());
+    let best = 0;
+    let bestDistance = Infinity;
+    points.forEach(({ x, y }, i) => {
+      const distance = (x - at.x) ** 2 + (y - at.y) ** 2;
+      if (distance < bestDistance) {
+        best = i;
+        bestDistance = distance;
+      }
+    });
+    setActive(best);
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    const last = points.length - 1;
+    const current = active ?? -1;
+    const next =
+      e.key === "ArrowRight" || e.key === "ArrowUp"
+        ? Math.min(last, current + 1)
+        : e.key === "ArrowLeft" || e.key === "ArrowDown"
+          ? Math.max(0, current - 1)
+          : e.key === "Home"
+            ? 0
+            : e.key === "End"
+              ? last
+              : null;
+    if (next === null || last < 0) return;
+    e.preventDefault();
+    setActive(next);
+  };
+
+  return (
+    <>
+      <svg
+        ref={svgRef}
+        className="telemetry-svg"
+        viewBox={`0 0 ${width} ${height}`}
+        role="img"
+        aria-label={label}
+        tabIndex={0}
+        onPointerMove={nearest}
+        onPointerDown={nearest}
+        onPointerLeave={() => setActive(null)}
+        onKeyDown={onKeyDown}
+        onBlur={() => setActive(null)}
+      >
+        {children}
+        {point && (
+          <g className="telemetry-marker" aria-hidden="true">
+            <line x1={point.x} x2={point.x} y1={top} y2={height - bottom} />
+            <circle cx={point.x} cy={point.y} r={4} />
+          </g>
+        )}
+      </svg>
+      <p className="telemetry-readout" aria-live="polite">
+        {point && (
+          <>
+            {xLabel} <strong>{point.readout[0]}</strong> · {yLabel}{" "}
+            <strong>{point.readout[1]}</strong>
+          </>
+        )}
+      </p>
+    </>
+  );
+}
@@ -0,0 +1,75 @@
+import { MAP_BOX, flightMap, type FlightMap } from "@/lib/flight-track";
+import type { FlightTrack, Spec } from "@/types/content";
+import { TrackStats } from "./track-stats";
+
+/*
+ * A project's GPS tracks, each drawn at build time as a stylised map: the
+ * path over a bare graticule, launch, peak and landing marked, a scale bar
+ * and north up. Nothing is fetched to draw it.
+ */
+
+/* Labels sit right of their marker, or left when that would run off the map. */
+function MarkerLabel({ x, y, label }: { x: number; y: number; label: string }) {
+  const flip = x > MAP_BOX.width * 0.75;
+  return (
+    <text x={flip ? x - 10 : x + 10} y={y + 4} textAnchor={flip ? "end" : "start"}>
+      {label}
+    </text>
+  );
+}
+
+function TrackMap({ map }: { map: FlightMap }) {
+  const { width, height } = MAP_BOX;
+  const stats: Spec[] = [
+    // Rounded as the figure is read: to 100 m of ground, to the metre of height.
+    { label: "Launch to landing", value: Math.round(map.distanceKm * 10) / 10, unit: "km" },
+    ...(map.peakM !== undefined
+      ? [{ label: map.peakLabel, value: Math.round(map.peakM), unit: "m" as const }]
+      : []),
+  ];
+
+  return (
+    <figure className="flight-map">
+      <svg
+        className="flight-map-svg"
+        viewBox={`0 0 ${width} ${height}`}
+        role="img"
+        aria-label={map.description}
+      >
+        <g className="flight-map-graticule">
+          {map.graticule.x.map((x) => (
+            <line key={`x${x}`} x1={x} x2={x} y1={0} y2={height} />
+          ))}
+          {map.graticule.y.map((y) => (
+            <line key={`y${y}`} x1={0} x2={width} y1={y} y2={y} />
+          ))}
+        </g>
+        <path className="flight-map-track" d={map.path} />
+        {map.markers.map((marker) => (
+          <g key={marker.kind} className={`flight-map-marker is-${marker.kind}`}>
+            <circle cx={marker.x} cy={marker.y} r={5} />
+            <MarkerLabel {...marker} />
+          </g>
+        ))}
+        <g className="flight-map-scale" transform={`translate(16 ${height - 16})`}>
+          <path d={`M0 -6V0H${map.scaleBar.length}V-6`} />
+          <text x={map.scaleBar.length + 8} y={0}>
+            {map.scaleBar.label}
+          </text>
+        </g>
+        <g className="flight-map-north" transform={`translate(${width - 24} 28)`}>
+          <path d="M0 -12L6 6L0 2L-6 6Z" />
+          <text y={20} textAnchor="middle">
+            N
+          </text>
+        </g>
+      </svg>
+      <TrackStats stats={stats} />
+      {map.title && <figcaption>{map.title}</figcaption>}
+    </figure>
+  );
+}
+
+export function FlightMaps({ tracks }: { tracks: FlightTrack[] }) {
+  return tracks.map((track) => <TrackMap key={track.src} map={flightMap(track)} />);
+}
@@ -1,128 +1,144 @@
 "use client";
 
-import Link from "next/link";
-import type { Media, WorkItem } from "@/types/content";
-
-function isVideo(media: Media) {
-  return media.kind === "video" || /\.(mp4|webm|mov|m4v)$/i.test(media.src);
-}
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useHome } from "@/components/home/home-context";
+import {
+  type ScrollEffect,
+  easeOutQuad,
+  requestScrollFrame,
+  scale3d,
+  useScrollEffect,
+} from "@/components/home/scroll-engine";
+import { collectTags, hasTag } from "@/lib/tags";
+import type { WorkItem } from "@/types/content";
+import { useOrientationTilt } from "./use-orientation-tilt";
+import { WorkCard } from "./work-card";
 
 /*
- * When the tile media declares its intrinsic size, the frame takes that exact
- * ratio so nothing is cropped or letterboxed. Otherwise fall back to the
- * design's square / 4:5 frames.
+ * Tile logic studied from the nathansmith.design clone in `website 5/`:
+ * a staggered two-column grid where odd/even tiles pull toward the centre gutter,
+ * plus a 3D tilt that tracks the pointer across each card (see WorkCard) — or,
+ * on a phone, the phone itself (see useOrientationTilt).
+ *
+ * Entrance (scale 1.2 → 1) is a scroll effect, written straight to the DOM by
+ * the scroll engine so it can run on every frame without re-rendering React.
  */
-function tileAspect(item: WorkItem): string | undefined {
-  const media = tileMedia(item);
-  if (media?.width && media.height) return `${media.width} / ${media.height}`;
-  return undefined;
-}
 
-function tileMedia(item: WorkItem) {
-  return item.tile ?? item.image;
+const TAG_PARAM = "tag";
+
+function tagFromUrl() {
+  return new URLSearchParams(window.location.search).get(TAG_PARAM);
 }
 
-function TilePreview({ item }: { item: WorkItem }) {
-  const media = tileMedia(item);
+/*
+ * The active tag lives in ?tag= so a filtered grid can be shared. It is read
+ * after mount rather than through useSearchParams, which would force the whole
+ * statically exported home page into a Suspense fallback. replaceState keeps
+ * filter clicks out of the back-button history.
+ */
+function useTagFilter() {
+  const [active, setActive] = useState<string | null>(null);
 
-  if (!media) {
-    return (
-      <span className="pg-slot" style={{ color: item.fg }}>
-        {item.imageHint}
-      </span>
-    );
-  }
+  useEffect(() => {
+    const sync = () => setActive(tagFromUrl());
+    sync();
+    window.addEventListener("popstate", sync);
+    return () => window.removeEventListener("popstate", sync);
+  }, []);
 
-  if (isVideo(media)) {
-    return (
-      <video
-        src={media.src}
-        aria-label={media.alt}
-        autoPlay
-        muted
-        loop
-        playsInline
-        preload="metadata"
-        disablePictureInPicture
-      />
-    );
-  }
+  const select = (slug: string | null) => {
+    setActive(slug);
+    const url = new URL(window.location.href);
+    if (slug) url.searchParams.set(TAG_PARAM, slug);
+    else url.searchParams.delete(TAG_PARAM);
+    window.history.replaceState(window.history.state, "", url);
+  };
 
-  // eslint-disable-next-line @next/next/no-img-element
-  return <img src={media.src} alt={media.alt} />;
+  return [active, select] as const;
 }
 
 /*
- * Tile logic studied from the nathansmith.design clone in `website 5/`:
- * a staggered two-column grid where odd/even tiles pull toward the centre gutter,
- * plus a 3D tilt that tracks the pointer across each card.
- *
- * Entrance (scale 1.2 → 1, opacity 0 → 1) is driven by useScrollEffects, which
- * writes transforms directly so it can run on every scroll frame without
- * re-rendering React.
+ * Scale 1.2 → 1 across 15–30% of the tile's travel, on nathan's outQuad. The
+ * media itself stays fully visible throughout. Narrow viewports enter from
+ * 1.04 rather than 1.2; a 20% overscale hangs off both edges of a phone screen.
  */
+const TILE_ENTRANCE: ScrollEffect = {
+  range: [0.15, 0.3],
+  easing: easeOutQuad,
+  transform: (t, { compact }) => {
+    const from = compact ? 1.04 : 1.2;
+    return scale3d(from - t * (from - 1));
+  },
+};
+
+function GridItem({ children }: { children: React.ReactNode }) {
+  const ref = useScrollEffect<HTMLDivElement>(TILE_ENTRANCE);
+  return (
+    <div className="portfolio-grid-item" role="listitem" ref={ref}>
+      {children}
+    </div>
+  );
+}
 
 export function PortfolioGrid({ items }: { items: WorkItem[] }) {
-  const onTiltMove = (e: React.MouseEvent<HTMLAnchorElement>) => {
-    const visual = e.currentTarget.querySelector<HTMLElement>(
-      ".portfolio-grid-card-visual-wrapper",
-    );
-    if (!visual) return;
-    const rect = visual.getBoundingClientRect();
-    const x = (e.clientX - rect.left) / rect.width;
-    const y = (e.clientY - rect.top) / rect.height;
-    visual.style.transform = `rotateX(${5 - y * 10}deg) rotateY(${-5 + x * 10}deg)`;
-  };
+  const tags = useMemo(() => collectTags(items), [items]);
+  const [activeTag, selectTag] = useTagFilter();
+  const { motion } = useHome();
+  const sectionRef = useRef<HTMLElement>(null);
+  const tilt = useOrientationTilt(sectionRef, motion === "full");
 
-  const onLeave = (e: React.MouseEvent<HTMLAnchorElement>) => {
-    const visual = e.currentTarget.querySelector<HTMLElement>(
-      ".portfolio-grid-card-visual-wrapper",
-    );
-    if (visual) visual.style.transform = "rotateX(0deg) rotateY(0deg)";
-  };
+  // A stale or mistyped ?tag= shows everything rather than an empty grid.
+  const filter = tags.some((tag) => tag.slug === activeTag) ? activeTag : null;
+  const visible = filter ? items.filter((item) => hasTag(item, filter)) : items;
+
+  // Tiles that stay in the grid move when others leave it; re-measure them now
+  // rather than on the next scroll.
+  useEffect(() => {
+    requestScrollFrame();
+  }, [filter]);
 
   return (
-    <section id="works" className="section-portfolio-grid">
+    <section id="works" className="section-portfolio-grid" ref={sectionRef}>
       <div className="works-padding">
         <div className="works-container">
           <div className="portfolio-grid-collection-wrapper">
-            <div className="portfolio-grid-content-wrapper" role="list">
-              {items.map((item) => (
-                <div className="portfolio-grid-item" key={item.slug} role="listitem">
-                  <Link
-                    href={`/works/${item.slug}`}
-                    className="portfolio-grid-card"
-                    data-bg={item.bg}
-                    data-fg={item.fg}
-                    onMouseMove={onTiltMove}
-                    onMouseLeave={onLeave}
+            {tags.length > 0 && (
+              <div className="works-filter" role="group" aria-label="Filter works by tag">
+                <button
+                  type="button"
+                  className="tag works-filter-tag"
+                  aria-pressed={filter === null}
+                  onClick={() => selectTag(null)}
+                >
+                  All
+                </button>
+                {tags.map((tag) => (
+                  <button
+                    key={tag.slug}
+                    type="button"
+                    className="tag works-filter-tag"
+                    aria-pressed={filter === tag.slug}
+                    onClick={() => selectTag(filter === tag.slug ? null : tag.slug)}
                   >
-                    <div
-                      className={`portfolio-grid-card-visual-wrapper${
-                        item.portrait ? " is-portrait" : ""
-                      }`}
-                      style={{
-                        // Only backs the empty-slot placeholder; media fills the
-                        // frame edge to edge on its own.
-                        backgroundColor: tileMedia(item) ? undefined : item.bg,
-                        aspectRatio: tileAspect(item),
-                      }}
-                    >
-                      <div className="pg-media">
-                        <TilePreview item={item} />
-                      </div>
-                    </div>
-                    <div className="portfolio-grid-text-wrapper">
-                      <div className="portfolio-grid-heading-wrapper">
-                        <div className="portfolio-grid-heading-punctuation">→ </div>
-                        <h2 className="portfolio-grid-heading">{item.heading}</h2>
-                      </div>
-                      {item.subheading && (
-                        <h2 className="portfolio-grid-subheading">{item.subheading}</h2>
-                      )}
-                    </div>
-                  </Link>
-                </div>
+                    {tag.label}
+                  </button>
+                ))}
+              </div>
+            )}
+            {tilt.permission === "prompt" && motion === "full" && (
+              <button
+                type="button"
+                className="tag works-filter-tag works-tilt"
+                onClick={tilt.request}
+              >
+                Tilt with phone
+              </button>
+            )}
+            <div className="portfolio-grid-content-wrapper" role="list">
+              {visible.map((item) => (
+                <GridItem key={item.slug}>
+                  <WorkCard item={item} reducedMotion={motion === "reduced"} />
+                </GridItem>
               ))}
             </div>
           </div>
@@ -0,0 +1,58 @@
+"use client";
+
+import { specReading, type UnitSystem } from "@/lib/units";
+import type { Spec } from "@/types/content";
+import { useUnitSystem } from "./use-unit-system";
+
+const SYSTEMS: { system: UnitSystem; label: string }[] = [
+  { system: "metric", label: "Metric" },
+  { system: "imperial", label: "Imperial" },
+];
+
+/*
+ * A project's key figures as a two-column table, in the visitor's unit system.
+ * The toggle only appears when at least one figure has a unit to convert.
+ */
+export function SpecSheet({ specs }: { specs: Spec[] }) {
+  const [system, setSystem] = useUnitSystem();
+  const convertible = specs.some((spec) => spec.unit !== undefined);
+
+  return (
+    <div className="spec-sheet">
+      <div className="spec-sheet-head">
+        <h2 className="page-subhead">Specs</h2>
+        {convertible && (
+          <div className="spec-units" role="group" aria-label="Units">
+            {SYSTEMS.map(({ system: option, label }) => (
+              <button
+                key={option}
+                type="button"
+                className="tag spec-unit"
+                aria-pressed={system === option}
+                onClick={() => setSystem(option)}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      <table className="spec-table">
+        <tbody>
+          {specs.map((spec) => {
+            const { value, unit } = specReading(spec, system);
+            return (
+              <tr key={spec.label}>
+                <th scope="row">{spec.label}</th>
+                <td>
+                  {value}
+                  {unit && ` ${unit}`}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
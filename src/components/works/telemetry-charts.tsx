@@ -0,0 +1,63 @@
+import { CHART_BOX, telemetryCharts, type ChartGeometry } from "@/lib/telemetry";
+import type { Telemetry } from "@/types/content";
+import { ChartReadout } from "./chart-readout";
+
+/*
+ * A project's telemetry, charted at build time: each chart is finished SVG in
+ * the static HTML, axes, ticks and line included. ChartReadout adds the hover
+ * and keyboard readout on top once the client is up.
+ */
+
+function Chart({ chart }: { chart: ChartGeometry }) {
+  const { width, height, top, bottom, left, right } = CHART_BOX;
+  const plotBottom = height - bottom;
+
+  return (
+    <figure className="telemetry-chart">
+      <ChartReadout
+        box={CHART_BOX}
+        points={chart.points}
+        xLabel={chart.xLabel}
+        yLabel={chart.yLabel}
+        label={`${chart.title}. ${chart.description}`}
+      >
+        <g className="telemetry-grid">
+          {chart.yTicks.map((tick) => (
+            <line key={tick.label} x1={left} x2={width - right} y1={tick.at} y2={tick.at} />
+          ))}
+        </g>
+        <g className="telemetry-axis">
+          <line x1={left} x2={width - right} y1={plotBottom} y2={plotBottom} />
+          <line x1={left} x2={left} y1={top} y2={plotBottom} />
+          {chart.xTicks.map((tick) => (
+            <text key={tick.label} x={tick.at} y={plotBottom + 18} textAnchor="middle">
+              {tick.label}
+            </text>
+          ))}
+          {chart.yTicks.map((tick) => (
+            <text key={tick.label} x={left - 8} y={tick.at + 4} textAnchor="end">
+              {tick.label}
+            </text>
+          ))}
+          <text x={(left + width - right) / 2} y={height - 6} textAnchor="middle">
+            {chart.xLabel}
+          </text>
+          <text
+            x={-(top + plotBottom) / 2}
+            y={14}
+            textAnchor="middle"
+            transform="rotate(-90)"
+          >
+            {chart.yLabel}
+          </text>
+        </g>
+        <path className="telemetry-line" d={chart.path} />
+      </ChartReadout>
+      <figcaption>{chart.title}</figcaption>
+    </figure>
+  );
+}
+
+export function TelemetryCharts({ telemetry }: { telemetry: Telemetry[] }) {
+  return telemetryCharts(telemetry).map((chart, i) => <Chart key={i} chart={chart} />);
+}
@@ -0,0 +1,27 @@
+"use client";
+
+import { specReading } from "@/lib/units";
+import type { Spec } from "@/types/content";
+import { useUnitSystem } from "./use-unit-system";
+
+/* A flight map's figures, in the unit system the spec sheet's toggle chose. */
+export function TrackStats({ stats }: { stats: Spec[] }) {
+  const [system] = useUnitSystem();
+
+  return (
+    <dl className="flight-map-stats">
+      {stats.map((stat) => {
+        const { value, unit } = specReading(stat, system);
+        return (
+          <div key={stat.label}>
+            <dt>{stat.label}</dt>
+            <dd>
+              {value}
+              {unit && ` ${unit}`}
+            </dd>
+          </div>
+        );
+      })}
+    </dl>
+  );
+}
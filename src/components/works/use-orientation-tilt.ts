@@ -0,0 +1,96 @@
+"use client";
+
+import { type RefObject, useCallback, useEffect, useState } from "react";
+import { tiltTransform } from "./work-card";
+
+/*
+ * "unsupported": no gyroscope to speak of, or a pointer that hovers anyway.
+ * "prompt": iOS, where motion data needs the visitor's say-so, asked for from
+ * a tap. "granted" / "denied": the answer, or no question needed (Android).
+ */
+export type OrientationPermission = "unsupported" | "prompt" | "granted" | "denied";
+
+type OrientationEventWithPermission = typeof DeviceOrientationEvent & {
+  requestPermission?: () => Promise<"granted" | "denied">;
+};
+
+/** Degrees of device tilt, either way from where it was first held, for a full card tilt. */
+const RANGE = 20;
+
+function clamp01(value: number) {
+  return Math.min(1, Math.max(0, value));
+}
+
+/*
+ * On touch devices the tiles lean with the phone instead of a pointer. The
+ * first reading is taken as level, so however the phone is held, the cards
+ * start flat and tilt as it moves from there. Every card in `root` gets the
+ * same tilt, written straight to the DOM once per animation frame.
+ */
+export function useOrientationTilt(root: RefObject<HTMLElement | null>, enabled: boolean) {
+  const [permission, setPermission] = useState<OrientationPermission>("unsupported");
+
+  useEffect(() => {
+    const detect = () => {
+      if (
+        typeof DeviceOrientationEvent === "undefined" ||
+        !window.matchMedia("(hover: none)").matches
+      ) {
+        setPermission("unsupported");
+        return;
+      }
+      const Orientation = DeviceOrientationEvent as OrientationEventWithPermission;
+      setPermission(typeof Orientation.requestPermission === "function" ? "prompt" : "granted");
+    };
+    detect();
+  }, []);
+
+  // Must run inside the tap that asked for it, or iOS refuses outright.
+  const request = useCallback(async () => {
+    const Orientation = DeviceOrientationEvent as OrientationEventWithPermission;
+    try {
+      const answer = await Orientation.requestPermission?.();
+      setPermission(answer === "granted" ? "granted" : "denied");
+    } catch {
+      setPermission("denied");
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!enabled || permission !== "granted") return;
+
+    let level: { beta: number; gamma: number } | null = null;
+    let latest = { beta: 0, gamma: 0 };
+    let frame = 0;
+
+    const cards = () =>
+      root.current?.querySelectorAll<HTMLElement>(".portfolio-grid-card-visual-wrapper") ?? [];
+
+    const apply = () => {
+      frame = 0;
+      if (!level) return;
+      const x = clamp01(0.5 + (latest.gamma - level.gamma) / (2 * RANGE));
+      const y = clamp01(0.5 + (latest.beta - level.beta) / (2 * RANGE));
+      const transform = tiltTransform(x, y);
+      cards().forEach((card) => {
+        card.style.transform = transform;
+      });
+    };
+
+    const onOrientation = (e: DeviceOrientationEvent) => {
+      if (e.beta === null || e.gamma === null) return;
+      latest = { beta: e.beta, gamma: e.gamma };
+      level ??= latest;
+      if (!frame) frame = requestAnimationFrame(apply);
+    };
+
+    window.addEventListener("deviceorientation", onOrientation);
+    return () => {
+      window.removeEventListener("deviceorientation", onOrientation);
+      if (frame) cancelAnimationFrame(frame);
+      cards().forEach((card) => card.style.removeProperty("transform"));
+    };
+  }, [enabled, permission, root]);
+
+  return { permission, request };
+}
@@ -0,0 +1,119 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+/*
+ * Video tiles share one budget. A tile only loads its clip once it comes
+ * within LOAD_MARGIN of the viewport, and of the tiles on screen only the
+ * MAX_PLAYING most visible play; the rest — and everything offscreen — sit
+ * paused on their poster or last frame.
+ */
+
+const MAX_PLAYING = 2;
+
+/** How far ahead of the viewport a tile starts fetching its clip. */
+const LOAD_MARGIN = "50% 0px";
+
+interface Tile {
+  video: HTMLVideoElement;
+  /** How much of it is on screen, 0–1. */
+  visible: number;
+  /** Whether it may play at all — off under reduced motion until asked. */
+  allowed: boolean;
+}
+
+const tiles = new Map<Element, Tile>();
+
+function rebalance() {
+  const playing = new Set(
+    [...tiles.values()]
+      .filter((tile) => tile.allowed && tile.visible > 0)
+      .sort((a, b) => b.visible - a.visible)
+      .slice(0, MAX_PLAYING),
+  );
+  for (const tile of tiles.values()) {
+    if (playing.has(tile)) {
+      if (tile.video.paused && tile.video.currentSrc) tile.video.play().catch(() => {});
+    } else if (!tile.video.paused) {
+      tile.video.pause();
+    }
+  }
+}
+
+function setAllowed(video: HTMLVideoElement, allowed: boolean) {
+  const tile = tiles.get(video);
+  if (tile) tile.allowed = allowed;
+  rebalance();
+}
+
+let visibility: IntersectionObserver | null = null;
+
+/* One observer for every tile, created on first use (there is no window on the server). */
+function visibilityObserver() {
+  visibility ??= new IntersectionObserver(
+    (entries) => {
+      for (const entry of entries) {
+        const tile = tiles.get(entry.target);
+        if (tile) tile.visible = entry.isIntersecting ? entry.intersectionRatio : 0;
+      }
+      rebalance();
+    },
+    { threshold: [0, 0.25, 0.5, 0.75, 1] },
+  );
+  return visibility;
+}
+
+/*
+ * Wires a tile's <video> into the budget. Returns `attach`, a callback ref for
+ * it; `near`, whether it has come close enough to load — until then it should
+ * render without a src, showing only its poster; and `onLoadedMetadata`, to
+ * hand the <video> so the tile can start once its clip is known.
+ */
+export function useTilePlayback(allowed: boolean) {
+  const [near, setNear] = useState(false);
+  const allowedRef = useRef(allowed);
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+
+  const attach = useCallback((video: HTMLVideoElement | null) => {
+    if (!video) return;
+    videoRef.current = video;
+    tiles.set(video, { video, visible: 0, allowed: allowedRef.current });
+    visibilityObserver().observe(video);
+
+    const approach = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          setNear(true);
+          approach.disconnect();
+        }
+      },
+      { rootMargin: LOAD_MARGIN },
+    );
+    approach.observe(video);
+
+    return () => {
+      approach.disconnect();
+      visibility?.unobserve(video);
+      tiles.delete(video);
+      videoRef.current = null;
+      rebalance();
+    };
+  }, []);
+
+  useEffect(() => {
+    allowedRef.current = allowed;
+    if (videoRef.current) setAllowed(videoRef.current, allowed);
+  }, [allowed]);
+
+  /*
+   * Once the src is in, the tile may be due to play right away — and it won't
+   * cross another visibility threshold to say so. Metadata, not data: iOS
+   * often holds off loading data until play() is called.
+   */
+  useEffect(() => {
+    if (near) rebalance();
+  }, [near]);
+  const onLoadedMetadata = useCallback(() => rebalance(), []);
+
+  return { attach, near, onLoadedMetadata };
+}
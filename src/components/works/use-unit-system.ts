@@ -0,0 +1,65 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import type { UnitSystem } from "@/lib/units";
+
+const STORAGE_KEY = "units";
+
+/* Where a visitor's locale reads feet and Fahrenheit first. */
+const IMPERIAL_REGIONS = new Set(["US", "LR", "MM"]);
+
+const listeners = new Set<() => void>();
+
+/* The choice when storage is blocked, so the toggle still works for this visit. */
+let fallback: UnitSystem | null = null;
+
+function localeSystem(): UnitSystem {
+  const region = navigator.language.split("-")[1]?.toUpperCase();
+  return region && IMPERIAL_REGIONS.has(region) ? "imperial" : "metric";
+}
+
+function read(): UnitSystem {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (stored === "metric" || stored === "imperial") return stored;
+  } catch {
+    // Storage blocked — the locale decides.
+  }
+  return localeSystem();
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  // Another tab changed it.
+  const onStorage = (e: StorageEvent) => {
+    if (e.key === STORAGE_KEY) listener();
+  };
+  window.addEventListener("storage", onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", onStorage);
+  };
+}
+
+function setUnitSystem(system: UnitSystem) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, system);
+  } catch {
+    fallback = system;
+  }
+  for (const listener of listeners) listener();
+}
+
+/*
+ * The visitor's unit system, shared by every spec sheet on the site: their
+ * choice from the toggle, remembered across visits, or else their locale's.
+ * The static HTML is metric and the real answer arrives after hydration.
+ */
+export function useUnitSystem(): [UnitSystem, (system: UnitSystem) => void] {
+  const system = useSyncExternalStore(
+    subscribe,
+    () => fallback ?? read(),
+    () => "metric" as const,
+  );
+  return [system, setUnitSystem];
+}
@@ -0,0 +1,38 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useSyncExternalStore } from "react";
+import { canMorph, heroSelector, morph, savedHomeUrl, tileSelector } from "./work-transition";
+
+/* Session storage only changes on a navigation, which remounts the link. */
+function subscribe() {
+  return () => {};
+}
+
+/*
+ * The project page's "← Back": home as it was left — same ?tag= filter and
+ * query — with the hero morphing back into its tile and the page scrolled to
+ * where the tile was left. The static HTML links plain "/".
+ */
+export function WorkBackLink({ slug }: { slug: string }) {
+  const router = useRouter();
+  const home = useSyncExternalStore(subscribe, savedHomeUrl, () => "/");
+
+  return (
+    <Link
+      href={home}
+      className="page-back"
+      onClick={(e) => {
+        if (!canMorph(e)) return;
+        e.preventDefault();
+        const hero = document.querySelector<HTMLElement>(heroSelector(slug));
+        // The home page restores its own scroll position; don't let the
+        // router jump to the top first.
+        morph(hero, tileSelector(slug), () => router.push(home, { scroll: false }));
+      }}
+    >
+      ← Back
+    </Link>
+  );
+}
@@ -0,0 +1,180 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { ResponsiveImg } from "@/components/responsive-img";
+import { stillOf } from "@/lib/youtube";
+import type { Media, WorkItem } from "@/types/content";
+import { useTilePlayback } from "./use-tile-playback";
+import { canMorph, heroSelector, morph, saveHomeScroll } from "./work-transition";
+
+function isVideo(media: Media) {
+  return media.kind === "video" || /\.(mp4|webm|mov|m4v)$/i.test(media.src);
+}
+
+/*
+ * When the tile media declares its intrinsic size, the frame takes that exact
+ * ratio so nothing is cropped or letterboxed. Otherwise fall back to the
+ * design's square / 4:5 frames.
+ */
+function tileAspect(item: WorkItem): string | undefined {
+  const media = tileMedia(item);
+  if (media?.width && media.height) return `${media.width} / ${media.height}`;
+  return undefined;
+}
+
+/* A YouTube video can't play on a tile; its poster stands in. */
+function tileMedia(item: WorkItem) {
+  const media = item.tile ?? item.image;
+  return media && stillOf(media);
+}
+
+function TilePreview({ item, playing }: { item: WorkItem; playing: boolean }) {
+  const media = tileMedia(item);
+  // Started and stopped by the shared playback budget rather than autoPlay:
+  // only near, visible tiles load and play, and a reduced-motion visitor sees
+  // the poster — or, without one, the clip's first frame — until they ask for it.
+  const { attach, near, onLoadedMetadata } = useTilePlayback(playing);
+
+  if (!media) {
+    return (
+      <span className="pg-slot" style={{ color: item.fg }}>
+        {item.imageHint}
+      </span>
+    );
+  }
+
+  if (isVideo(media)) {
+    return (
+      <video
+        ref={attach}
+        src={near ? media.src : undefined}
+        poster={media.poster}
+        aria-label={media.alt}
+        muted
+        loop
+        playsInline
+        preload="metadata"
+        disablePictureInPicture
+        onLoadedMetadata={onLoadedMetadata}
+      />
+    );
+  }
+
+  return <ResponsiveImg media={media} sizes="(max-width: 767px) 100vw, 50vw" />;
+}
+
+/*
+ * The tilt for a pointer at (x, y) across the frame, each 0–1: ±5° either way,
+ * leaning toward the pointer. Also used by the device-orientation tilt.
+ */
+export function tiltTransform(x: number, y: number) {
+  return `rotateX(${5 - y * 10}deg) rotateY(${-5 + x * 10}deg)`;
+}
+
+const REST = "rotateX(0deg) rotateY(0deg)";
+
+function visualOf(card: HTMLElement) {
+  return card.querySelector<HTMLElement>(".portfolio-grid-card-visual-wrapper");
+}
+
+/*
+ * One Works tile: the media frame plus its "→ Heading" caption, with a 3D tilt
+ * that tracks the pointer across the card — mouse, pen, or a finger dragged
+ * sideways (vertical drags still scroll; see touch-action on the card).
+ * Following it morphs the frame into the project page's hero. Shared by the
+ * home grid and every other list of works, so a tile looks the same wherever
+ * it appears.
+ *
+ * With `reducedMotion` the tilt is off and a video tile holds its poster behind
+ * a play button, which sits beside the link rather than inside it.
+ */
+export function WorkCard({ item, reducedMotion = false }: { item: WorkItem; reducedMotion?: boolean }) {
+  const media = tileMedia(item);
+  const hasVideo = media !== undefined && isVideo(media);
+  const [played, setPlayed] = useState(false);
+  const playing = !reducedMotion || played;
+  const router = useRouter();
+  const href = `/works/${item.slug}`;
+
+  const onOpen = (e: React.MouseEvent<HTMLAnchorElement>) => {
+    saveHomeScroll();
+    if (!canMorph(e)) return;
+    e.preventDefault();
+    morph(visualOf(e.currentTarget), heroSelector(item.slug), () => router.push(href));
+  };
+
+  const onTiltMove = (e: React.PointerEvent<HTMLAnchorElement>) => {
+    if (reducedMotion) return;
+    const visual = visualOf(e.currentTarget);
+    if (!visual) return;
+    const rect = visual.getBoundingClientRect();
+    const x = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width));
+    const y = Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height));
+    visual.style.transform = tiltTransform(x, y);
+  };
+
+  const onLeave = (e: React.PointerEvent<HTMLAnchorElement>) => {
+    const visual = visualOf(e.currentTarget);
+    if (visual) visual.style.transform = REST;
+  };
+
+  // A mouse stays over the card after a click; a finger or pen has gone.
+  const onRelease = (e: React.PointerEvent<HTMLAnchorElement>) => {
+    if (e.pointerType !== "mouse") onLeave(e);
+  };
+
+  const card = (
+    <Link
+      href={href}
+      className="portfolio-grid-card"
+      data-bg={item.bg}
+      data-fg={item.fg}
+      onPointerMove={onTiltMove}
+      onPointerLeave={onLeave}
+      onPointerUp={onRelease}
+      onPointerCancel={onLeave}
+      onClick={onOpen}
+    >
+      <div
+        className={`portfolio-grid-card-visual-wrapper${item.portrait ? " is-portrait" : ""}`}
+        data-work-tile={item.slug}
+        style={{
+          // Only backs the empty-slot placeholder; media fills the
+          // frame edge to edge on its own.
+          backgroundColor: tileMedia(item) ? undefined : item.bg,
+          aspectRatio: tileAspect(item),
+        }}
+      >
+        <div className="pg-media">
+          <TilePreview item={item} playing={playing} />
+        </div>
+      </div>
+      <div className="portfolio-grid-text-wrapper">
+        <div className="portfolio-grid-heading-wrapper">
+          <div className="portfolio-grid-heading-punctuation">→ </div>
+          <h2 className="portfolio-grid-heading">{item.heading}</h2>
+        </div>
+        {item.subheading && <h2 className="portfolio-grid-subheading">{item.subheading}</h2>}
+      </div>
+    </Link>
+  );
+
+  if (!reducedMotion || !hasVideo) return card;
+
+  return (
+    <>
+      {card}
+      <button
+        type="button"
+        className="tag tile-play"
+        aria-pressed={played}
+        aria-label={`${played ? "Pause" : "Play"} ${media.alt}`}
+        onClick={() => setPlayed((p) => !p)}
+      >
+        {played ? "Pause" : "Play"}
+      </button>
+    </>
+  );
+}
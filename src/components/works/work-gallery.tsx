@@ -0,0 +1,252 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { ResponsiveImg } from "@/components/responsive-img";
+import { YouTubeEmbed } from "@/components/youtube-embed";
+import { isYouTube } from "@/lib/youtube";
+import type { Media } from "@/types/content";
+
+function isVideo(media: Media) {
+  return media.kind === "video" || /\.(mp4|webm|mov|m4v)$/i.test(media.src);
+}
+
+/* #gallery-3 opens the third item. One-based, since people read these URLs. */
+const HASH = /^#gallery-(\d+)$/;
+
+function indexFromHash(count: number) {
+  const match = window.location.hash.match(HASH);
+  if (!match) return null;
+  const index = Number(match[1]) - 1;
+  return index >= 0 && index < count ? index : null;
+}
+
+function setHash(index: number | null) {
+  const url = new URL(window.location.href);
+  url.hash = index === null ? "" : `gallery-${index + 1}`;
+  window.history.replaceState(window.history.state, "", url);
+}
+
+/** A horizontal drag past this many pixels turns the page. */
+const SWIPE_THRESHOLD = 48;
+
+function GalleryThumb({ media }: { media: Media }) {
+  // Only the poster here; the player waits for a press inside the lightbox.
+  if (isYouTube(media)) {
+    return (
+      <>
+        {media.poster && (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img className="gallery-media" src={media.poster} alt="" loading="lazy" />
+        )}
+        <span className="youtube-play" aria-hidden="true" />
+      </>
+    );
+  }
+  if (isVideo(media)) {
+    return (
+      <video
+        className="gallery-media"
+        src={media.src}
+        aria-label={media.alt}
+        muted
+        playsInline
+        preload="metadata"
+      />
+    );
+  }
+  return (
+    <ResponsiveImg
+      className="gallery-media"
+      media={media}
+      sizes="(max-width: 767px) 100vw, 312px"
+      lazy
+    />
+  );
+}
+
+function LightboxMedia({ media }: { media: Media }) {
+  if (isYouTube(media)) return <YouTubeEmbed className="lightbox-media" media={media} />;
+  if (isVideo(media)) {
+    return (
+      <video
+        className="lightbox-media"
+        src={media.src}
+        aria-label={media.alt}
+        controls
+        autoPlay
+        playsInline
+        preload="auto"
+      />
+    );
+  }
+  return <ResponsiveImg className="lightbox-media" media={media} sizes="100vw" />;
+}
+
+function Lightbox({
+  items,
+  index,
+  onIndex,
+  onClose,
+}: {
+  items: Media[];
+  index: number;
+  onIndex: (index: number) => void;
+  onClose: () => void;
+}) {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const closeRef = useRef<HTMLButtonElement>(null);
+  const swipeStart = useRef<number | null>(null);
+  const media = items[index];
+  const many = items.length > 1;
+
+  const step = useCallback(
+    (delta: number) => onIndex((index + delta + items.length) % items.length),
+    [index, items.length, onIndex],
+  );
+
+  // Same shape as VideoBackground's Escape handler, plus arrows and a focus
+  // trap: Tab cycles through the dialog's own controls and never leaves it.
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+      else if (e.key === "ArrowRight" && many) step(1);
+      else if (e.key === "ArrowLeft" && many) step(-1);
+      else if (e.key === "Tab") {
+        const focusable = dialogRef.current?.querySelectorAll<HTMLElement>(
+          "button, video[controls], iframe, [href]",
+        );
+        if (!focusable || focusable.length === 0) return;
+        const first = focusable[0];
+        const last = focusable[focusable.length - 1];
+        if (e.shiftKey && document.activeElement === first) {
+          e.preventDefault();
+          last.focus();
+        } else if (!e.shiftKey && document.activeElement === last) {
+          e.preventDefault();
+          first.focus();
+        }
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [many, onClose, step]);
+
+  // Take focus on open, hand it back to whatever opened us on close, and keep
+  // the page underneath from scrolling in the meantime.
+  useEffect(() => {
+    const opener = document.activeElement as HTMLElement | null;
+    closeRef.current?.focus();
+    const overflow = document.body.style.overflow;
+    document.body.style.overflow = "hidden";
+    return () => {
+      document.body.style.overflow = overflow;
+      opener?.focus();
+    };
+  }, []);
+
+  return (
+    <div
+      ref={dialogRef}
+      className="lightbox"
+      role="dialog"
+      aria-modal="true"
+      aria-label={`Gallery, ${index + 1} of ${items.length}`}
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div
+        className="lightbox-stage"
+        onPointerDown={(e) => {
+          swipeStart.current = e.clientX;
+        }}
+        onPointerUp={(e) => {
+          if (swipeStart.current === null || !many) return;
+          const dx = e.clientX - swipeStart.current;
+          swipeStart.current = null;
+          if (Math.abs(dx) > SWIPE_THRESHOLD) step(dx < 0 ? 1 : -1);
+        }}
+        onPointerCancel={() => {
+          swipeStart.current = null;
+        }}
+      >
+        <LightboxMedia key={media.src} media={media} />
+      </div>
+
+      <div className="lightbox-bar">
+        <p className="lightbox-caption">{media.alt}</p>
+        <span className="lightbox-count">
+          {index + 1}/{items.length}
+        </span>
+      </div>
+
+      {many && (
+        <>
+          <button
+            type="button"
+            className="lightbox-nav is-prev"
+            aria-label="Previous"
+            onClick={() => step(-1)}
+          >
+            ←
+          </button>
+          <button
+            type="button"
+            className="lightbox-nav is-next"
+            aria-label="Next"
+            onClick={() => step(1)}
+          >
+            →
+          </button>
+        </>
+      )}
+
+      <button ref={closeRef} type="button" className="lightbox-close" onClick={onClose}>
+        Close
+      </button>
+    </div>
+  );
+}
+
+/*
+ * The project page's gallery grid. Each frame opens a fullscreen lightbox; the
+ * open item is mirrored into the URL hash (#gallery-3) so a specific photo can
+ * be linked to directly.
+ */
+export function WorkGallery({ items }: { items: Media[] }) {
+  const [open, setOpen] = useState<number | null>(null);
+
+  useEffect(() => {
+    const sync = () => setOpen(indexFromHash(items.length));
+    sync();
+    window.addEventListener("hashchange", sync);
+    return () => window.removeEventListener("hashchange", sync);
+  }, [items.length]);
+
+  const show = useCallback((index: number | null) => {
+    setOpen(index);
+    setHash(index);
+  }, []);
+
+  const close = useCallback(() => show(null), [show]);
+
+  return (
+    <>
+      <div className="gallery-grid">
+        {items.map((media, i) => (
+          <button
+            type="button"
+            className="gallery-frame"
+            key={media.src}
+            aria-label={`Open ${media.alt}`}
+            onClick={() => show(i)}
+          >
+            <GalleryThumb media={media} />
+          </button>
+        ))}
+      </div>
+
+      {open !== null && <Lightbox items={items} index={open} onIndex={show} onClose={close} />}
+    </>
+  );
+}
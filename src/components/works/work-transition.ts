@@ -0,0 +1,134 @@
+"use client";
+
+import { currentMotion } from "@/components/home/use-motion-policy";
+
+/*
+ * The tile ⇄ hero morph. A Works tile and its project page's hero show the
+ * same media on the same colour, so navigating between them runs as a View
+ * Transition with the two sharing one view-transition-name: the browser
+ * animates the tile's box into the hero's and back. The name is only ever on
+ * one element per side, and only for the duration, so a page can hold a hero
+ * and a strip of related tiles without the names colliding.
+ *
+ * Browsers without the API, reduced motion (the system's or the visitor's
+ * saved choice), and modified clicks (new tab) all get the plain navigation.
+ */
+
+const MORPH_NAME = "work-hero";
+
+/** How long to wait for the destination to render before giving up on the morph. */
+const ARRIVAL_TIMEOUT_MS = 2000;
+
+const URL_KEY = "home-url";
+
+/*
+ * Where the home page was left for a tile's page. Kept in the module, not in
+ * sessionStorage: it is only meant for the client-side trip back, and storage
+ * would carry it into a reload or a new tab, landing a fresh visit mid-page.
+ */
+let homeScroll: number | null = null;
+
+export function tileSelector(slug: string) {
+  return `[data-work-tile="${slug}"]`;
+}
+
+export function heroSelector(slug: string) {
+  return `[data-work-hero="${slug}"]`;
+}
+
+export function canMorph(e: React.MouseEvent) {
+  return (
+    typeof document.startViewTransition === "function" &&
+    e.button === 0 &&
+    !(e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) &&
+    currentMotion() === "full"
+  );
+}
+
+/*
+ * Resolves with the element once the new route has rendered it, or null. Runs
+ * inside the transition's update callback, while the browser holds rendering
+ * — so no animation frames come, and it watches the DOM instead of polling.
+ */
+function arrival(selector: string) {
+  return new Promise<HTMLElement | null>((resolve) => {
+    const found = document.querySelector<HTMLElement>(selector);
+    if (found) {
+      resolve(found);
+      return;
+    }
+    const finish = (element: HTMLElement | null) => {
+      observer.disconnect();
+      clearTimeout(timeout);
+      resolve(element);
+    };
+    const observer = new MutationObserver(() => {
+      const element = document.querySelector<HTMLElement>(selector);
+      if (element) finish(element);
+    });
+    const timeout = setTimeout(() => finish(null), ARRIVAL_TIMEOUT_MS);
+    observer.observe(document.body, { childList: true, subtree: true });
+  });
+}
+
+/*
+ * Navigate with `navigate`, morphing `from` on this page into whatever matches
+ * `to` on the next. The destination's home-scroll restore runs in an effect,
+ * so waiting a task past its arrival lets the tile settle where it will be
+ * before the new state is captured (a task, not a frame, for the same reason
+ * as in arrival).
+ */
+export function morph(from: HTMLElement | null, to: string, navigate: () => void) {
+  if (!from) {
+    navigate();
+    return;
+  }
+  from.style.viewTransitionName = MORPH_NAME;
+  let target: HTMLElement | null = null;
+
+  const transition = document.startViewTransition(async () => {
+    from.style.viewTransitionName = "";
+    navigate();
+    target = await arrival(to);
+    await new Promise((resolve) => setTimeout(resolve));
+    if (target) target.style.viewTransitionName = MORPH_NAME;
+  });
+
+  transition.finished.finally(() => {
+    from.style.viewTransitionName = "";
+    if (target) target.style.viewTransitionName = "";
+  });
+}
+
+/*
+ * Called as a tile is left for its page, so coming back lands on it again —
+ * with the same tag filter and query still in the URL.
+ */
+export function saveHomeScroll() {
+  if (window.location.pathname !== "/") return;
+  homeScroll = Math.max(window.scrollY, document.body.scrollTop);
+  try {
+    window.sessionStorage.setItem(URL_KEY, `/${window.location.search}`);
+  } catch {
+    // Back to an unfiltered home, then.
+  }
+}
+
+/* Where "← Back" returns to: the home URL the visitor left, else plain "/". */
+export function savedHomeUrl() {
+  try {
+    return window.sessionStorage.getItem(URL_KEY) ?? "/";
+  } catch {
+    return "/";
+  }
+}
+
+/*
+ * The saved position, once. The home page takes it on every mount, used or
+ * not, so it never outlasts the visit back it was saved for.
+ */
+export function takeHomeScroll() {
+  const saved = homeScroll;
+  homeScroll = null;
+  return saved;
+}
@@ -0,0 +1,45 @@
+"use client";
+
+import { useState } from "react";
+import { youtubeEmbedUrl } from "@/lib/youtube";
+import type { Media } from "@/types/content";
+
+/*
+ * A YouTube video behind a facade: the local poster and a play button until
+ * it is pressed, then the youtube-nocookie player in the same box. Until that
+ * press the page makes no request to YouTube at all.
+ */
+export function YouTubeEmbed({ media, className }: { media: Media; className?: string }) {
+  const [playing, setPlaying] = useState(false);
+  const aspect = media.width && media.height ? `${media.width} / ${media.height}` : undefined;
+
+  return (
+    <div
+      className={`youtube-embed${className ? ` ${className}` : ""}`}
+      style={aspect ? { aspectRatio: aspect } : undefined}
+    >
+      {playing ? (
+        <iframe
+          src={youtubeEmbedUrl(media.src)}
+          title={media.alt}
+          allow="autoplay; encrypted-media; picture-in-picture; fullscreen"
+          allowFullScreen
+          referrerPolicy="strict-origin-when-cross-origin"
+        />
+      ) : (
+        <button
+          type="button"
+          className="youtube-facade"
+          aria-label={`Play ${media.alt}`}
+          onClick={() => setPlaying(true)}
+        >
+          {media.poster && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={media.poster} alt="" loading="lazy" decoding="async" />
+          )}
+          <span className="youtube-play" aria-hidden="true" />
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import type { BioNode, BioParagraph, Media } from "@/types/content";
+// Relative, not "@/lib/site": the build validator imports this module from
+// next.config.ts, where the path alias does not resolve.
+import { AUTHOR } from "./site";
+
+/*
+ * The bio, pill-for-pill from the design. Edit freely: pill ids and the
+ * R{n}/total counter are derived from this tree, so there is nothing to
+ * renumber.
+ */
+
+const VTOL_SEARCH =
+  "https://www.google.com/search?q=vertical+takeoff+and+landing+aircraft";
+
+function pill(label: string, ...children: BioNode[]): BioNode {
+  return { kind: "pill", label, children };
+}
+
+export const BIO: BioParagraph[] = [
+  [
+    "Hi there! I’m ",
+    pill(
+      "Evan",
+      " Sie. I’m a senior studying for a Bachelor’s in Mechanical Engineering at ",
+      pill(
+        "UTD",
+        ". I love anything related to ",
+        pill(
+          "STEM",
+          ". Over the years I discovered my niche: building and piloting model aircraft. ",
+        ),
+      ),
+    ),
+  ],
+  [
+    {
+      kind: "pill",
+      lead: "My background is in ",
+      label: "Aerospace",
+      children: [
+        ". I 3D printed a ",
+        { kind: "link", label: "VTOL", href: VTOL_SEARCH },
+        " ",
+        {
+          kind: "pill",
+          label: "aircraft",
+          clip: { src: "/videos/aerofold loop.mp4", alt: "", kind: "video" },
+          children: [" that takes off like a drone and unfolds its wings mid-flight."],
+        },
+        " I wear many different hats, but my main focus is in ",
+        pill(
+          "engineering",
+          ". I led a team of student engineers in launching a ",
+          pill("payload", " measuring ozone and radiation at 94,000ft."),
+          " Before that I used a ",
+          pill(
+            "Raspberry Pi",
+            " to build a smart mirror for my bedroom, a futuristic and convenient way to get my day’s information.",
+          ),
+        ),
+        " I love to explore the world and ",
+        { kind: "video", label: "take pictures" },
+        " to compose and tell a story. My dream is to live in the ",
+        pill(
+          "Swiss Alps",
+          ", but I currently live in ",
+          pill("Frisco TX", ", though I was born in ", pill("Jakarta", ", Indonesia"), ". "),
+        ),
+      ],
+    },
+  ],
+  [
+    {
+      kind: "pill",
+      lead: "You can reach me through ",
+      label: "LinkedIn",
+      children: [
+        " or ",
+        { kind: "email", address: AUTHOR.email },
+        " to collaborate and start a project. Let’s see if we can make it happen.",
+      ],
+    },
+  ],
+];
+
+/* The tree again, with every reveal carrying the id its pill and content share. */
+export type NumberedBioNode =
+  | Exclude<BioNode, { kind: "pill" } | { kind: "email" }>
+  | (Omit<Extract<BioNode, { kind: "pill" }>, "children"> & {
+      id: number;
+      children: NumberedBioNode[];
+    })
+  | (Extract<BioNode, { kind: "email" }> & { id: number });
+
+/* Depth-first, in reading order — so ids run 1, 2, 3… down the page. */
+function numberBio(paragraphs: BioParagraph[]) {
+  let next = 1;
+  const clips: Record<number, Media> = {};
+  const visit = (node: BioNode): NumberedBioNode => {
+    if (typeof node === "string") return node;
+    if (node.kind === "pill") {
+      const id = next++;
+      if (node.clip) clips[id] = node.clip;
+      return { ...node, id, children: node.children.map(visit) };
+    }
+    if (node.kind === "email") return { ...node, id: next++ };
+    return node;
+  };
+  const numbered = paragraphs.map((paragraph) => paragraph.map(visit));
+  return { paragraphs: numbered, total: next - 1, clips };
+}
+
+const numbered = numberBio(BIO);
+
+export const NUMBERED_BIO: NumberedBioNode[][] = numbered.paragraphs;
+
+/** Every pill plus the email — what the R{n}/total counter counts to. */
+export const TOTAL_REVEALS = numbered.total;
+
+/** Pill id → the background clip it swaps in. */
+export const BIO_CLIPS = numbered.clips;
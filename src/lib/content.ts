@@ -1,81 +1,307 @@
-import type { WorkItem } from "@/types/content";
+import fs from "node:fs";
+import path from "node:path";
+import matter from "gray-matter";
+import type {
+  AlbumCollection,
+  FlightTrack,
+  Media,
+  Spec,
+  Telemetry,
+  VideoSource,
+  WorkItem,
+} from "@/types/content";
+import { parseBlocks, plainText } from "./markdown-blocks";
+import { withResponsive } from "./responsive-images";
+import { SPEC_UNITS } from "./units";
 
 /*
- * The Works tiles, in display order: plane, then balloon.
- * `bg`/`fg` come from the design prototype's data-bg / data-fg attributes.
+ * The clip behind the home bio, seen through the multiply-blended text. `src`
+ * is the MP4 every browser plays; add `sources` to offer smaller or WebM
+ * encodings, e.g. { src: "/videos/video-background-960.webm", width: 960,
+ * height: 540 }. The `poster` still is required: it fills the layer before the
+ * first frame, and for good if no source will play.
+ */
+export const backgroundVideo: Media = {
+  src: "/videos/video-background.mp4",
+  alt: "",
+  kind: "video",
+  poster: "/images/works/vtol-workbench.webp",
+};
+
+/*
+ * The Works entries live one per file in content/works/*.md and are read at
+ * build time — this module runs on the server only. Frontmatter maps field for
+ * field onto WorkItem; the file name is the slug; the Markdown below the
+ * frontmatter becomes `blocks` (see markdown-blocks.ts), and its paragraphs
+ * are also kept as plain-text `body`.
+ *
+ * Display order is the frontmatter `order`, lowest first — plane, then
+ * balloon. `bg`/`fg` come from the design prototype's data-bg / data-fg
+ * attributes.
  *
  * The smart mirror and wind tunnel entries are parked for now — their copy and
  * images are in git history if they come back.
  */
-export const workItems: WorkItem[] = [
-  {
-    slug: "vtol-aircraft",
-    heading: "VTOL Aircraft",
-    title: "Folding Wing VTOL Aircraft",
-    achievements: [
-      "Fabricated and assembled a 1.6 m wingspan, 3D-printed folding-wing QuadPlane on a Bambu Lab A1, using five filament types (LW-PLA, CF-PLA, PETG, TPU, PLA).",
-      "Configured parameters in both QGroundControl and Mission Planner running ArduPlane.",
-      "Designed an innovative wing transition mechanism using a belt and pulley system inspired by 3D printers.",
-      "Integrated a Matek H743 flight controller, BN-880 GPS, and 900 MHz ELRS link.",
-      "Verified control behavior in the ArduPilot SITL simulator.",
-    ],
-    bg: "#d8d4c8",
-    fg: "#121113",
-    imageHint: "VTOL aircraft — build or flight shot",
-    tile: {
-      src: "/videos/aerofold loop.mp4",
-      alt: "The aircraft folding its wings mid-flight",
-      kind: "video",
-      width: 480,
-      height: 480,
-    },
-    image: {
-      src: "/images/works/vtol-workbench.webp",
-      alt: "The folding-wing VTOL aircraft on the workbench, wings unfolded",
+
+const WORKS_DIR = path.join(process.cwd(), "content", "works");
+
+const REQUIRED_FIELDS = ["heading", "bg", "fg", "imageHint"] as const;
+
+/*
+ * The day a work went up, as YYYY-MM-DD. Frontmatter can pin it exactly with
+ * `published: 2025-04-12` (YAML hands that over as a Date); otherwise it is
+ * the first of the month in `date`. Feeds sort and stamp entries by it.
+ */
+function publishedDate(data: Record<string, unknown>, where: string): string | undefined {
+  const { published, date } = data;
+  if (published instanceof Date && !Number.isNaN(published.getTime())) {
+    return published.toISOString().slice(0, 10);
+  }
+  if (published !== undefined) {
+    throw new Error(`${where}: "published" should be a YYYY-MM-DD date`);
+  }
+  const month = typeof date === "string" ? date.match(/^(\d{4})\.(\d{2})$/) : null;
+  return month ? `${month[1]}-${month[2]}-01` : undefined;
+}
+
+/*
+ * Frontmatter arrives as whatever YAML made of it. Each field is checked for
+ * shape as it is copied onto the WorkItem — a list where text belongs, or a
+ * misspelt key, fails here and names the field. Whether the values are any
+ * good (files exist, colours parse) is left to validate-content.ts.
+ */
+type Shape<T> = (value: unknown, field: string) => T;
+
+function shapeError(field: string, should: string) {
+  return new Error(`"${field}" should be ${should}`);
+}
+
+const text: Shape<string> = (value, field) => {
+  if (typeof value !== "string") throw shapeError(field, "text");
+  return value;
+};
+
+const number: Shape<number> = (value, field) => {
+  if (typeof value !== "number") throw shapeError(field, "a number");
+  return value;
+};
+
+const flag: Shape<boolean> = (value, field) => {
+  if (typeof value !== "boolean") throw shapeError(field, "true or false");
+  return value;
+};
+
+function oneOf<T extends string>(choices: readonly T[]): Shape<T> {
+  return (value, field) => {
+    if (!choices.includes(value as T)) throw shapeError(field, `one of ${choices.join(", ")}`);
+    return value as T;
+  };
+}
+
+function optional<T>(shape: Shape<T>): Shape<T | undefined> {
+  return (value, field) => (value === undefined ? undefined : shape(value, field));
+}
+
+function list<T>(shape: Shape<T>): Shape<T[]> {
+  return (value, field) => {
+    if (!Array.isArray(value)) throw shapeError(field, "a list");
+    return value.map((item, i) => shape(item, `${field}[${i}]`));
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/* Any keys, each holding `shape` — e.g. telemetry labels by column. */
+function dictionary<T>(shape: Shape<T>): Shape<Record<string, T>> {
+  return (value, field) => {
+    if (!isRecord(value)) throw shapeError(field, "a set of fields");
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, shape(entry, `${field}.${key}`)]),
+    );
+  };
+}
+
+/* Exactly these keys; unset optional ones are left off rather than undefined. */
+function fields<T extends object>(shapes: { [K in keyof T]-?: Shape<T[K]> }): Shape<T> {
+  return (value, field) => {
+    if (!isRecord(value)) throw shapeError(field, "a set of fields");
+    const at = (key: string) => (field ? `${field}.${key}` : key);
+    const unknown = Object.keys(value).find((key) => !Object.hasOwn(shapes, key));
+    if (unknown) throw new Error(`"${at(unknown)}" is not a field this takes`);
+    const result: Partial<T> = {};
+    for (const key of Object.keys(shapes) as (keyof T & string)[]) {
+      const read = shapes[key](value[key], at(key));
+      if (read !== undefined) result[key] = read;
+    }
+    return result as T;
+  };
+}
+
+const videoSource = fields<VideoSource>({
+  src: text,
+  type: optional(text),
+  width: optional(number),
+  height: optional(number),
+});
+
+// No srcSet or placeholder: those are generated, never written by hand.
+const media = fields<Omit<Media, "srcSet" | "placeholder">>({
+  src: text,
+  alt: text,
+  kind: optional(oneOf(["image", "video", "youtube"])),
+  width: optional(number),
+  height: optional(number),
+  poster: optional(text),
+  sources: optional(list(videoSource)),
+});
+
+const spec = fields<Spec>({ label: text, value: number, unit: optional(oneOf(SPEC_UNITS)) });
+
+const telemetry = fields<Telemetry>({
+  src: text,
+  labels: optional(dictionary(text)),
+  charts: list(fields({ x: text, y: text, title: optional(text) })),
+});
+
+const track = fields<FlightTrack>({ src: text, title: optional(text), peak: optional(text) });
+
+/* `order` places the file and `published` is read by publishedDate, so neither is here. */
+const frontmatter = fields<Omit<WorkItem, "slug" | "published" | "body" | "blocks">>({
+  heading: text,
+  subheading: optional(text),
+  title: optional(text),
+  date: optional(text),
+  tags: optional(list(text)),
+  summary: optional(text),
+  specs: optional(list(spec)),
+  achievements: optional(list(text)),
+  link: optional(fields({ href: text, label: text, poster: optional(text) })),
+  bg: text,
+  fg: text,
+  portrait: optional(flag),
+  imageHint: text,
+  tile: optional(media),
+  image: optional(media),
+  gallery: optional(list(media)),
+  telemetry: optional(list(telemetry)),
+  tracks: optional(list(track)),
+});
+
+function readWork(file: string): { order: number; item: WorkItem } {
+  const { data, content } = matter(fs.readFileSync(path.join(WORKS_DIR, file), "utf8"));
+  const where = `content/works/${file}`;
+
+  for (const field of REQUIRED_FIELDS) {
+    if (typeof data[field] !== "string" || !data[field]) {
+      throw new Error(`${where}: frontmatter is missing "${field}"`);
+    }
+  }
+  if (typeof data.order !== "number") {
+    throw new Error(`${where}: frontmatter needs a numeric "order" to place it in the grid`);
+  }
+  // Unquoted, YAML reads 2024.10 as the number 2024.1.
+  if (data.date !== undefined && typeof data.date !== "string") {
+    throw new Error(`${where}: quote "date" so YAML keeps it as YYYY.MM text`);
+  }
+
+  const blocks = parseBlocks(content).map((block) =>
+    block.type === "figure" || block.type === "video"
+      ? { ...block, media: withResponsive(block.media) }
+      : block,
+  );
+  const body = blocks.flatMap((block) =>
+    block.type === "paragraph" ? [plainText(block.content)] : [],
+  );
+  const { order, ...rest } = data;
+  delete rest.published;
+  let checked: Omit<WorkItem, "slug" | "published" | "body" | "blocks">;
+  try {
+    checked = frontmatter(rest, "");
+  } catch (err) {
+    throw new Error(`${where}: ${(err as Error).message}`);
+  }
+  const published = publishedDate(data, where);
+  const item: WorkItem = {
+    ...checked,
+    slug: file.replace(/\.md$/, ""),
+    ...(body.length > 0 ? { body } : {}),
+    ...(blocks.length > 0 ? { blocks } : {}),
+    // Replaces the raw frontmatter value, which YAML may have made a Date.
+    ...(published ? { published } : {}),
+  };
+  return {
+    order,
+    item: {
+      ...item,
+      tile: item.tile && withResponsive(item.tile),
+      image: item.image && withResponsive(item.image),
+      gallery: item.gallery?.map(withResponsive),
     },
-  },
+  };
+}
+
+function loadWorkItems(): WorkItem[] {
+  const works = fs
+    .readdirSync(WORKS_DIR)
+    .filter((file) => file.endsWith(".md"))
+    .map(readWork)
+    .sort((a, b) => a.order - b.order);
+
+  const clash = works.find((work, i) => i > 0 && works[i - 1].order === work.order);
+  if (clash) throw new Error(`content/works: two entries share order ${clash.order}`);
+
+  return works.map(({ item }) => item);
+}
+
+export const workItems: WorkItem[] = loadWorkItems();
+
+/*
+ * The Album collections, in display order. Each becomes /album/[slug]; the
+ * index shows every collection's cover. Photos carry their intrinsic size so
+ * the masonry columns can lay out before the files load.
+ */
+const collections: AlbumCollection[] = [
   {
-    slug: "high-altitude-balloon",
-    heading: "High Altitude Balloon",
-    summary: "UTD’s High Altitude Balloon Chapter",
-    body: [
-      "This project was part of my involvement in AIAA’s research division, where five of us built and launched UTD’s first high altitude weather balloon, reaching 92,404 ft (28,164 m).",
-    ],
-    achievements: [
-      "Coordinated a team of five engineers to design, build, and launch three weather balloons, all reaching 91,000 ft or higher, collecting data on cosmic radiation, ozone, temperature, and pressure.",
-      "Prioritized and divided work across the team to meet project and flight deadlines.",
-      "Used CAD to design and manufacture prototype parts protecting sensitive components against −65 °C conditions.",
-      "Ran simulations and real-world testing to confirm payload functionality ahead of the maiden flight.",
-      "Built in redundancy across the scientific instruments and data collection software to keep the flight recoverable.",
-      "Published two research papers and presented twice at the AIAA Regional Conference at Rice University in Houston, TX.",
-    ],
-    link: { href: "https://youtu.be/2wPQeWOTOIY", label: "Watch our full maiden flight" },
-    bg: "#24313f",
-    fg: "#eeeef0",
-    portrait: true,
-    imageHint: "High-altitude payload — launch or recovery shot",
-    tile: {
-      src: "/videos/video-background.mp4",
-      alt: "Onboard footage from the balloon flight",
-      kind: "video",
-      width: 1104,
-      height: 816,
-    },
-    image: {
-      src: "/images/works/hab-poster.webp",
-      alt: "The team presenting the ozone and cosmic radiation poster at the AIAA regional conference",
-    },
-    gallery: [
+    slug: "launch-night",
+    title: "Launch Night",
+    summary: "The high altitude balloon, from inflation to the stratosphere.",
+    photos: [
       {
         src: "/images/works/hab-inflation.webp",
         alt: "The team inflating the balloon before the night launch",
+        caption: "Inflating the balloon before the night launch.",
+        width: 640,
+        height: 850,
       },
       {
         src: "/images/works/hab-onboard.webp",
         alt: "Onboard stills: night launch, sunrise from altitude, and the stratosphere",
+        caption: "Onboard: night launch, sunrise from altitude, the stratosphere.",
+        width: 640,
+        height: 361,
+      },
+      {
+        src: "/images/works/payload.webp",
+        alt: "The high altitude balloon payload",
+        caption: "The payload, before it went up.",
+        width: 640,
+        height: 853,
+      },
+      {
+        src: "/images/works/runcam.webp",
+        alt: "Onboard camera mount",
+        caption: "The onboard camera mount.",
+        width: 424,
+        height: 726,
       },
-      { src: "/images/works/payload.webp", alt: "The high altitude balloon payload" },
-      { src: "/images/works/runcam.webp", alt: "Onboard camera mount" },
     ],
   },
 ];
+
+export const albumCollections: AlbumCollection[] = collections.map((collection) => ({
+  ...collection,
+  cover: collection.cover && withResponsive(collection.cover),
+  photos: collection.photos.map(withResponsive),
+}));
@@ -0,0 +1,258 @@
+import fs from "node:fs";
+import path from "node:path";
+import { workItems } from "@/lib/content";
+import {
+  AUTHOR,
+  FEEDS,
+  SITE_DESCRIPTION,
+  SITE_TITLE,
+  SITE_URL,
+  absoluteUrl,
+} from "@/lib/site";
+import { renderBlocks, type BlockRenderer } from "@/lib/markdown-blocks";
+import { publicPath } from "@/lib/public-files";
+import { stillOf } from "@/lib/youtube";
+import type { Media, WorkItem } from "@/types/content";
+
+/*
+ * RSS 2.0, Atom and JSON Feed renderings of the Works, served as static files
+ * by the route handlers in src/app/{feed.xml,atom.xml,feed.json}. All three
+ * carry the same entries: newest `published` first, undated works after them
+ * in display order.
+ */
+
+const FEED_TITLE = `${SITE_TITLE} — Works`;
+
+function feedItems(): WorkItem[] {
+  return workItems
+    .map((item, order) => ({ item, order }))
+    .sort((a, b) => {
+      if (a.item.published && b.item.published) {
+        return b.item.published.localeCompare(a.item.published) || a.order - b.order;
+      }
+      if (a.item.published) return -1;
+      if (b.item.published) return 1;
+      return a.order - b.order;
+    })
+    .map(({ item }) => item);
+}
+
+function escapeXml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function pageUrl(item: WorkItem) {
+  return absoluteUrl(`/works/${item.slug}`);
+}
+
+function titleOf(item: WorkItem) {
+  return item.title ?? item.heading;
+}
+
+function dateOf(item: WorkItem) {
+  return item.published ? new Date(`${item.published}T00:00:00Z`) : undefined;
+}
+
+/*
+ * The newest entry's date stands in for the feed's — never the build clock, so
+ * an unchanged site rebuilds to byte-identical feeds. Undefined while no work
+ * is dated.
+ */
+function feedUpdated(items: WorkItem[]) {
+  return items.map(dateOf).find(Boolean);
+}
+
+/* The hero as a still — a YouTube hero's poster. */
+function heroOf(item: WorkItem) {
+  return item.image && stillOf(item.image);
+}
+
+/* Site paths made absolute — feed readers resolve nothing against the site. */
+function feedUrl(href: string) {
+  return escapeXml(href.startsWith("/") ? absoluteUrl(href) : href);
+}
+
+/* A write-up's blocks as plain HTML, walked the same way as the page's. */
+const FEED_HTML: BlockRenderer<string> = {
+  text: escapeXml,
+  mark: (mark, content) =>
+    mark === "bold"
+      ? `<strong>${content}</strong>`
+      : mark === "italic"
+        ? `<em>${content}</em>`
+        : `<code>${content}</code>`,
+  link: (href, content) => `<a href="${feedUrl(href)}">${content}</a>`,
+  runs: (runs) => runs.join(""),
+  paragraph: (content) => `<p>${content}</p>`,
+  heading: (level, text) => `<h${level}>${escapeXml(text)}</h${level}>`,
+  figure: (media, caption) =>
+    figureHtml(`<img src="${feedUrl(media.src)}" alt="${escapeXml(media.alt)}">`, caption),
+  video: (media, caption) => {
+    const poster = media.poster ? ` poster="${feedUrl(media.poster)}"` : "";
+    const video = `<video src="${feedUrl(media.src)}"${poster} controls></video>`;
+    return figureHtml(video, caption);
+  },
+  quote: (content, cite) =>
+    `<blockquote><p>${content}</p>${cite ? `<cite>— ${escapeXml(cite)}</cite>` : ""}</blockquote>`,
+  list: (ordered, items) => {
+    const tag = ordered ? "ol" : "ul";
+    return `<${tag}>${items.map((item) => `<li>${item}</li>`).join("")}</${tag}>`;
+  },
+  code: (code) => `<pre><code>${escapeXml(code)}</code></pre>`,
+};
+
+function figureHtml(content: string, caption?: string) {
+  return `<figure>${content}${caption ? `<figcaption>${escapeXml(caption)}</figcaption>` : ""}</figure>`;
+}
+
+/* The page's text as simple HTML: hero, summary, body, achievements, link. */
+function contentHtml(item: WorkItem) {
+  const parts: string[] = [];
+  const hero = heroOf(item);
+  if (hero) {
+    const src = escapeXml(absoluteUrl(hero.src));
+    parts.push(`<p><img src="${src}" alt="${escapeXml(hero.alt)}"></p>`);
+  }
+  if (item.summary) parts.push(`<p><em>${escapeXml(item.summary)}</em></p>`);
+  if (item.blocks) parts.push(...renderBlocks(item.blocks, FEED_HTML));
+  else for (const paragraph of item.body ?? []) parts.push(`<p>${escapeXml(paragraph)}</p>`);
+  if (item.achievements && item.achievements.length > 0) {
+    parts.push("<h2>Key achievements</h2>");
+    parts.push(`<ul>${item.achievements.map((a) => `<li>${escapeXml(a)}</li>`).join("")}</ul>`);
+  }
+  if (item.link) {
+    parts.push(`<p><a href="${escapeXml(item.link.href)}">${escapeXml(item.link.label)}</a></p>`);
+  }
+  return parts.join("\n");
+}
+
+function mimeType(media: Media) {
+  const ext = path.extname(media.src).slice(1).toLowerCase();
+  return ext === "jpg" ? "image/jpeg" : `image/${ext}`;
+}
+
+/* RSS enclosures must state their size in bytes. */
+function fileSize(media: Media) {
+  try {
+    return fs.statSync(publicPath(media.src)).size;
+  } catch {
+    return 0;
+  }
+}
+
+export function rssFeed() {
+  const items = feedItems();
+  const updated = feedUpdated(items);
+  const entries = items.map((item) => {
+    const published = dateOf(item);
+    const hero = heroOf(item);
+    return [
+      "    <item>",
+      `      <title>${escapeXml(titleOf(item))}</title>`,
+      `      <link>${pageUrl(item)}</link>`,
+      `      <guid isPermaLink="true">${pageUrl(item)}</guid>`,
+      item.summary && `      <description>${escapeXml(item.summary)}</description>`,
+      `      <content:encoded><![CDATA[${contentHtml(item)}]]></content:encoded>`,
+      published && `      <pubDate>${published.toUTCString()}</pubDate>`,
+      ...(item.tags ?? []).map((tag) => `      <category>${escapeXml(tag)}</category>`),
+      hero &&
+        `      <enclosure url="${escapeXml(absoluteUrl(hero.src))}" ` +
+          `length="${fileSize(hero)}" type="${mimeType(hero)}"/>`,
+      "    </item>",
+    ]
+      .filter(Boolean)
+      .join("\n");
+  });
+
+  const channel = [
+    `    <title>${escapeXml(FEED_TITLE)}</title>`,
+    `    <link>${SITE_URL}/</link>`,
+    `    <description>${escapeXml(SITE_DESCRIPTION)}</description>`,
+    "    <language>en</language>",
+    updated && `    <lastBuildDate>${updated.toUTCString()}</lastBuildDate>`,
+    `    <atom:link href="${absoluteUrl(FEEDS.rss.path)}" rel="self" type="${FEEDS.rss.type}"/>`,
+  ].filter(Boolean);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/">
+  <channel>
+${channel.join("\n")}
+${entries.join("\n")}
+  </channel>
+</rss>
+`;
+}
+
+export function atomFeed() {
+  const items = feedItems();
+  // Atom requires <updated> on the feed too; with nothing dated, the epoch is
+  // at least stable from build to build.
+  const updated = feedUpdated(items) ?? new Date(0);
+  const entries = items.map((item) => {
+    // Atom requires <updated> on every entry; undated works borrow the feed's.
+    const stamp = (dateOf(item) ?? updated).toISOString();
+    const hero = heroOf(item);
+    return [
+      "  <entry>",
+      `    <title>${escapeXml(titleOf(item))}</title>`,
+      `    <link href="${pageUrl(item)}"/>`,
+      `    <id>${pageUrl(item)}</id>`,
+      item.published && `    <published>${stamp}</published>`,
+      `    <updated>${stamp}</updated>`,
+      item.summary && `    <summary>${escapeXml(item.summary)}</summary>`,
+      `    <content type="html">${escapeXml(contentHtml(item))}</content>`,
+      ...(item.tags ?? []).map((tag) => `    <category term="${escapeXml(tag)}"/>`),
+      hero &&
+        `    <link rel="enclosure" href="${escapeXml(absoluteUrl(hero.src))}" ` +
+          `type="${mimeType(hero)}"/>`,
+      "  </entry>",
+    ]
+      .filter(Boolean)
+      .join("\n");
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>${escapeXml(FEED_TITLE)}</title>
+  <subtitle>${escapeXml(SITE_DESCRIPTION)}</subtitle>
+  <link href="${SITE_URL}/"/>
+  <link rel="self" href="${absoluteUrl(FEEDS.atom.path)}"/>
+  <id>${SITE_URL}/</id>
+  <updated>${updated.toISOString()}</updated>
+  <author><name>${escapeXml(AUTHOR.name)}</name></author>
+${entries.join("\n")}
+</feed>
+`;
+}
+
+/* https://www.jsonfeed.org/version/1.1/ */
+export function jsonFeed() {
+  return {
+    version: "https://jsonfeed.org/version/1.1",
+    title: FEED_TITLE,
+    home_page_url: `${SITE_URL}/`,
+    feed_url: absoluteUrl(FEEDS.json.path),
+    description: SITE_DESCRIPTION,
+    language: "en",
+    authors: [{ name: AUTHOR.name, url: `${SITE_URL}/` }],
+    items: feedItems().map((item) => {
+      const hero = heroOf(item);
+      return {
+        id: pageUrl(item),
+        url: pageUrl(item),
+        title: titleOf(item),
+        summary: item.summary,
+        content_html: contentHtml(item),
+        image: hero && absoluteUrl(hero.src),
+        date_published: dateOf(item)?.toISOString(),
+        tags: item.tags,
+        external_url: item.link?.href,
+      };
+    }),
+  };
+}
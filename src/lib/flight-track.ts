@@ -0,0 +1,232 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { FlightTrack } from "@/types/content";
+import { publicPath } from "./public-files";
+import { extent, round, thin } from "./svg-geometry";
+
+/*
+ * GPX and KML flight logs turned into a stylised map at build time: the track
+ * projected onto a plain graticule, with launch, peak and landing marked and a
+ * scale bar. No tiles and no network — the map is only ever the track itself,
+ * so it builds and renders offline.
+ */
+
+/** The SVG viewBox, and the margin kept clear around the track. */
+export const MAP_BOX = { width: 640, height: 400, padding: 40 };
+
+/* Enough to trace any flight; the rest only inflates the HTML. */
+const MAX_PATH_POINTS = 1500;
+/* Mean length of a degree of latitude. */
+const KM_PER_DEGREE = 111.32;
+const EARTH_RADIUS_KM = 6371;
+/* Launch and landing closer than this, in viewBox units, share one marker. */
+const SAME_SPOT = 12;
+
+export interface TrackPoint {
+  lat: number;
+  lon: number;
+  /** Metres above sea level, where the log records it. */
+  ele?: number;
+}
+
+export interface MapMarker {
+  kind: "launch" | "peak" | "landing";
+  label: string;
+  x: number;
+  y: number;
+}
+
+export interface FlightMap {
+  title?: string;
+  /** The track, as an SVG path. */
+  path: string;
+  markers: MapMarker[];
+  /** Where the graticule's meridians (x) and parallels (y) cross the map. */
+  graticule: { x: number[]; y: number[] };
+  scaleBar: { length: number; label: string };
+  /** Straight-line distance from launch to landing. */
+  distanceKm: number;
+  /** The peak marker's elevation — absent without one, or without elevations. */
+  peakM?: number;
+  peakLabel: string;
+  /** What the map shows, for screen readers. */
+  description: string;
+}
+
+function attribute(tag: string, name: string) {
+  return tag.match(new RegExp(`\\b${name}=["']([^"']*)["']`))?.[1];
+}
+
+/* Track points, else route points, with their <ele> when there is one. */
+function parseGpx(xml: string): TrackPoint[] {
+  const points = (tag: string) => [
+    ...xml.matchAll(new RegExp(`<${tag}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</${tag}>)`, "g")),
+  ];
+  const track = points("trkpt");
+  return (track.length > 0 ? track : points("rtept")).map(([, attributes, body]) => {
+    const ele = body?.match(/<ele>\s*([^<]+?)\s*<\/ele>/)?.[1];
+    return {
+      lat: Number(attribute(attributes, "lat")),
+      lon: Number(attribute(attributes, "lon")),
+      ...(ele !== undefined ? { ele: Number(ele) } : {}),
+    };
+  });
+}
+
+/*
+ * A gx:Track's coords (what most loggers export), else every LineString's
+ * coordinates. Point placemarks are skipped — they're pins, not the path.
+ */
+function parseKml(xml: string): TrackPoint[] {
+  const coords = [...xml.matchAll(/<gx:coord>([^<]+)<\/gx:coord>/g)].map((m) =>
+    m[1].trim().split(/\s+/),
+  );
+  const tuples =
+    coords.length > 0
+      ? coords
+      : [...xml.matchAll(/<LineString\b[\s\S]*?<coordinates>([\s\S]*?)<\/coordinates>/g)]
+          .flatMap((m) => m[1].trim().split(/\s+/))
+          .map((tuple) => tuple.split(","));
+  return tuples.map(([lon, lat, alt]) => ({
+    lat: Number(lat),
+    lon: Number(lon),
+    ...(alt !== undefined ? { ele: Number(alt) } : {}),
+  }));
+}
+
+/** The track's points in order. Throws when the file isn't a usable track. */
+export function readTrack(src: string): TrackPoint[] {
+  const extension = path.extname(src).toLowerCase();
+  if (extension !== ".gpx" && extension !== ".kml") {
+    throw new Error("is not a .gpx or .kml file");
+  }
+  const xml = fs.readFileSync(publicPath(src), "utf8");
+  const points = extension === ".gpx" ? parseGpx(xml) : parseKml(xml);
+  if (points.length < 2) throw new Error("has fewer than two track points");
+  // Written so NaN, from a missing or garbled number, fails too.
+  const bad = points.findIndex(
+    ({ lat, lon, ele }) =>
+      !(Math.abs(lat) <= 90 && Math.abs(lon) <= 180) || (ele !== undefined && Number.isNaN(ele)),
+  );
+  if (bad !== -1) throw new Error(`point ${bad + 1} is not a valid position`);
+  return points;
+}
+
+/* 1, 2 or 5 × a power of ten, at or just under `target`. */
+function niceStep(target: number) {
+  const magnitude = 10 ** Math.floor(Math.log10(target));
+  const norm = target / magnitude;
+  return (norm < 2 ? 1 : norm < 5 ? 2 : 5) * magnitude;
+}
+
+function haversineKm(a: TrackPoint, b: TrackPoint) {
+  const rad = Math.PI / 180;
+  const dLat = (b.lat - a.lat) * rad;
+  const dLon = (b.lon - a.lon) * rad;
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(a.lat * rad) * Math.cos(b.lat * rad) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+/*
+ * Equirectangular, with longitude shrunk by the cosine of the middle latitude:
+ * true to scale across the few tens of kilometres a flight covers.
+ */
+function project(points: TrackPoint[]) {
+  const { width, height, padding } = MAP_BOX;
+  const [minLat, maxLat] = extent(points.map((p) => p.lat));
+  const [minLon, maxLon] = extent(points.map((p) => p.lon));
+  const shrink = Math.cos((((minLat + maxLat) / 2) * Math.PI) / 180);
+
+  // A track that never moved still needs a scale; call it a kilometre across.
+  const spanX = Math.max((maxLon - minLon) * shrink, 1 / KM_PER_DEGREE);
+  const spanY = Math.max(maxLat - minLat, 1 / KM_PER_DEGREE);
+  const scale = Math.min((width - 2 * padding) / spanX, (height - 2 * padding) / spanY);
+  const midLon = (minLon + maxLon) / 2;
+  const midLat = (minLat + maxLat) / 2;
+
+  return {
+    /** viewBox units per degree of latitude. */
+    scale,
+    x: (lon: number) => round(width / 2 + (lon - midLon) * shrink * scale),
+    y: (lat: number) => round(height / 2 - (lat - midLat) * scale),
+    lon: (x: number) => midLon + (x - width / 2) / (shrink * scale),
+    lat: (y: number) => midLat - (y - height / 2) / scale,
+  };
+}
+
+/* Lines every `step` degrees between `from` and `to`, as positions on the map. */
+function lines(from: number, to: number, step: number, position: (value: number) => number) {
+  const [low, high] = from < to ? [from, to] : [to, from];
+  const positions: number[] = [];
+  for (let value = Math.ceil(low / step) * step; value <= high; value += step) {
+    positions.push(position(value));
+  }
+  return positions;
+}
+
+function formatNumber(value: number) {
+  return value.toLocaleString("en-US", { maximumFractionDigits: 1 });
+}
+
+export function flightMap(track: FlightTrack): FlightMap {
+  const points = readTrack(track.src);
+  const { width, height } = MAP_BOX;
+  const map = project(points);
+  const at = (point: TrackPoint) => ({ x: map.x(point.lon), y: map.y(point.lat) });
+
+  const path = thin(points, MAX_PATH_POINTS)
+    .map((point, i) => {
+      const { x, y } = at(point);
+      return `${i === 0 ? "M" : "L"}${x} ${y}`;
+    })
+    .join("");
+
+  // The highest logged point, unless that's simply where it took off or came down.
+  const peakLabel = track.peak ?? "Peak";
+  const peakIndex = points.reduce(
+    (best, point, i) =>
+      point.ele !== undefined && point.ele > (points[best]?.ele ?? -Infinity) ? i : best,
+    -1,
+  );
+  const peak = peakIndex > 0 && peakIndex < points.length - 1 ? points[peakIndex] : undefined;
+
+  // A flight that came down where it went up gets one marker, not two overlapping.
+  const launch = points[0];
+  const landing = points[points.length - 1];
+  const [from, to] = [at(launch), at(landing)];
+  const sameSpot = Math.hypot(to.x - from.x, to.y - from.y) < SAME_SPOT;
+  const markers: MapMarker[] = [
+    { kind: "launch", label: sameSpot ? "Launch / landing" : "Launch", ...from },
+    ...(peak ? [{ kind: "peak" as const, label: peakLabel, ...at(peak) }] : []),
+    ...(sameSpot ? [] : [{ kind: "landing" as const, label: "Landing", ...to }]),
+  ];
+
+  // About four graticule cells across the wider side, on round degrees.
+  const degreesAcross = Math.max(width, height) / map.scale;
+  const step = niceStep(degreesAcross / 4);
+  const graticule = {
+    x: lines(map.lon(0), map.lon(width), step, map.x),
+    y: lines(map.lat(height), map.lat(0), step, map.y),
+  };
+
+  const unitsPerKm = map.scale / KM_PER_DEGREE;
+  const scaleKm = niceStep(width / 4 / unitsPerKm);
+  const distanceKm = haversineKm(launch, landing);
+  const peakM = peak?.ele;
+
+  return {
+    title: track.title,
+    path,
+    markers,
+    graticule,
+    scaleBar: { length: round(scaleKm * unitsPerKm), label: `${formatNumber(scaleKm)} km` },
+    distanceKm,
+    ...(peakM !== undefined ? { peakM } : {}),
+    peakLabel,
+    description:
+      `Flight track from launch to landing, ${formatNumber(distanceKm)} km apart` +
+      (peakM !== undefined ? `, reaching ${formatNumber(peakM)} m.` : "."),
+  };
+}
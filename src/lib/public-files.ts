@@ -0,0 +1,19 @@
+import path from "node:path";
+
+/*
+ * Where site paths land on disk. Shared by the validator and the build-time
+ * readers of data files, so a path that passes validation is the one read.
+ */
+
+const PUBLIC_DIR = path.join(process.cwd(), "public");
+
+/* Media paths are site-absolute ("/images/…") and map onto public/. */
+export function publicPath(src: string) {
+  let decoded = src;
+  try {
+    decoded = decodeURI(src);
+  } catch {
+    // Not percent-encoded after all; use it as written.
+  }
+  return path.join(PUBLIC_DIR, decoded);
+}
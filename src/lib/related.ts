@@ -0,0 +1,48 @@
+import type { WorkItem } from "@/types/content";
+import { tagSlug } from "./tags";
+
+/*
+ * Navigation between project pages: the neighbours in display order, and a
+ * ranked "related work" list. Both take the list in, rather than importing
+ * workItems, so they stay pure.
+ */
+
+export function adjacentWorks(items: WorkItem[], slug: string) {
+  const i = items.findIndex((item) => item.slug === slug);
+  return {
+    previous: i > 0 ? items[i - 1] : undefined,
+    next: i >= 0 && i < items.length - 1 ? items[i + 1] : undefined,
+  };
+}
+
+/** Months since year 0 for a YYYY.MM date, so two dates can be subtracted. */
+function monthIndex(date: string | undefined) {
+  const match = date?.match(/^(\d{4})\.(\d{2})$/);
+  return match ? Number(match[1]) * 12 + Number(match[2]) - 1 : undefined;
+}
+
+/*
+ * Each shared tag is worth a point; being close in time adds up to one more,
+ * halving for every six months apart. Tags therefore dominate, and the date
+ * mostly breaks ties. Works with nothing in common are left out.
+ */
+function relatedness(a: WorkItem, b: WorkItem) {
+  const tags = new Set((a.tags ?? []).map(tagSlug));
+  const shared = (b.tags ?? []).filter((tag) => tags.has(tagSlug(tag))).length;
+
+  const from = monthIndex(a.date);
+  const to = monthIndex(b.date);
+  const nearby = from !== undefined && to !== undefined ? 0.5 ** (Math.abs(from - to) / 6) : 0;
+
+  return shared + nearby;
+}
+
+export function relatedWorks(items: WorkItem[], item: WorkItem, limit = 3): WorkItem[] {
+  return items
+    .filter((other) => other.slug !== item.slug)
+    .map((other, order) => ({ other, order, score: relatedness(item, other) }))
+    .filter(({ score }) => score > 0.05)
+    .sort((a, b) => b.score - a.score || a.order - b.order)
+    .map(({ other }) => other)
+    .slice(0, limit);
+}
@@ -0,0 +1,49 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { Media } from "@/types/content";
+
+/*
+ * Reads what scripts/responsive-images.mjs generated ahead of the build — the
+ * narrower copies and placeholder for each file under public/images — and
+ * folds it into Media, so components only ever see srcSet/placeholder fields.
+ */
+
+// Keep in sync with scripts/responsive-images.mjs.
+const MANIFEST = path.join(process.cwd(), ".next", "cache", "responsive-images.json");
+
+interface ResponsiveImage {
+  width: number;
+  height: number;
+  srcSet: string;
+  placeholder: string;
+}
+
+let manifest: Record<string, ResponsiveImage> | undefined;
+
+function readManifest() {
+  if (!manifest) {
+    try {
+      manifest = JSON.parse(fs.readFileSync(MANIFEST, "utf8")) as Record<string, ResponsiveImage>;
+    } catch {
+      // Not generated (e.g. `next build` run directly) — media keeps its plain src.
+      manifest = {};
+    }
+  }
+  return manifest;
+}
+
+/*
+ * Attach what the pipeline produced for `media.src`. A declared width/height
+ * wins over the measured one; the build validator checks they agree.
+ */
+export function withResponsive<T extends Media>(media: T): T {
+  const image = readManifest()[media.src];
+  if (!image) return media;
+  return {
+    ...media,
+    width: media.width ?? image.width,
+    height: media.height ?? image.height,
+    srcSet: image.srcSet,
+    placeholder: image.placeholder,
+  };
+}
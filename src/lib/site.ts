@@ -0,0 +1,32 @@
+/*
+ * Site-wide identity, for anything that has to spell out absolute URLs or the
+ * author — feeds, metadataBase. The page copy itself stays in the pages.
+ */
+
+export const SITE_URL = "https://evan-sie.github.io";
+
+export const SITE_TITLE = "Evan Sie";
+
+export const SITE_DESCRIPTION =
+  "Mechanical engineering senior at UTD. Aerospace, model aircraft, and things I build.";
+
+export const AUTHOR = {
+  name: "Evan Sie",
+  email: "evansie485@gmail.com",
+  jobTitle: "Mechanical engineering student",
+  school: { name: "The University of Texas at Dallas", url: "https://www.utdallas.edu" },
+  /** Profiles elsewhere, for the Person structured data. */
+  sameAs: ["https://github.com/evan-sie"],
+};
+
+/* The Works feeds, rendered by src/lib/feeds.ts. */
+export const FEEDS = {
+  rss: { path: "/feed.xml", type: "application/rss+xml" },
+  atom: { path: "/atom.xml", type: "application/atom+xml" },
+  json: { path: "/feed.json", type: "application/feed+json" },
+} as const;
+
+/** Site-absolute path → absolute URL, encoding spaces and the like. */
+export function absoluteUrl(pathname: string) {
+  return new URL(encodeURI(pathname), SITE_URL).toString();
+}
@@ -0,0 +1,90 @@
+import { readFile } from "node:fs/promises";
+import { ImageResponse } from "next/og";
+import sharp from "sharp";
+import { publicPath } from "@/lib/public-files";
+import { stillOf } from "@/lib/youtube";
+import type { Media, WorkItem } from "@/types/content";
+
+/*
+ * The social card for a project: the tile's `bg`/`fg` on the left with the
+ * title and summary, the hero on the right. Rendered to PNG once per slug at
+ * build time by works/[slug]/card.png, and attached to that page's Open Graph
+ * and Twitter metadata.
+ */
+
+export const SOCIAL_CARD_SIZE = { width: 1200, height: 630 };
+
+export function socialCardPath(item: WorkItem) {
+  return `/works/${item.slug}/card.png`;
+}
+
+/* Satori can't decode webp, so the hero goes in as a JPEG data URL. */
+async function heroDataUrl(media: Media) {
+  const jpeg = await sharp(publicPath(media.src))
+    .autoOrient()
+    .resize({ width: SOCIAL_CARD_SIZE.width / 2, height: SOCIAL_CARD_SIZE.height, fit: "cover" })
+    .jpeg({ quality: 85 })
+    .toBuffer();
+  return `data:image/jpeg;base64,${jpeg.toString("base64")}`;
+}
+
+export async function socialCard(item: WorkItem) {
+  const still = item.image && stillOf(item.image);
+  const [sans, serif, hero] = await Promise.all([
+    readFile(publicPath("/fonts/neue-montreal-regular.woff")),
+    readFile(publicPath("/fonts/editorial-new-regular.woff")),
+    still ? heroDataUrl(still) : undefined,
+  ]);
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          display: "flex",
+          width: "100%",
+          height: "100%",
+          backgroundColor: item.bg,
+          color: item.fg,
+          fontFamily: "Neue Montreal",
+        }}
+      >
+        <div
+          style={{
+            display: "flex",
+            flexDirection: "column",
+            justifyContent: "space-between",
+            width: hero ? "50%" : "100%",
+            padding: 64,
+          }}
+        >
+          <div style={{ fontSize: 28, opacity: 0.7 }}>Evan Sie</div>
+          <div style={{ display: "flex", flexDirection: "column", gap: 20 }}>
+            <div style={{ fontFamily: "Editorial New", fontSize: 64, lineHeight: 1.05 }}>
+              {item.title ?? item.heading}
+            </div>
+            {item.summary && (
+              <div style={{ fontSize: 30, lineHeight: 1.25, opacity: 0.8 }}>{item.summary}</div>
+            )}
+          </div>
+        </div>
+        {hero && (
+          // Satori, not a browser, renders this — next/image doesn't apply.
+          // eslint-disable-next-line @next/next/no-img-element
+          <img
+            src={hero}
+            alt=""
+            width={SOCIAL_CARD_SIZE.width / 2}
+            height={SOCIAL_CARD_SIZE.height}
+          />
+        )}
+      </div>
+    ),
+    {
+      ...SOCIAL_CARD_SIZE,
+      fonts: [
+        { name: "Neue Montreal", data: sans, weight: 400, style: "normal" },
+        { name: "Editorial New", data: serif, weight: 400, style: "normal" },
+      ],
+    },
+  );
+}
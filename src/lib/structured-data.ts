@@ -0,0 +1,62 @@
+import { AUTHOR, SITE_URL, absoluteUrl } from "@/lib/site";
+import { linkVideo, stillOf } from "@/lib/youtube";
+import type { WorkItem } from "@/types/content";
+
+/*
+ * schema.org JSON-LD for search engines: one Person for the site's author,
+ * and a CreativeWork per project that points back at them by @id, so the
+ * graph links up across pages.
+ */
+
+const PERSON_ID = `${SITE_URL}/#person`;
+
+export function personJsonLd() {
+  return {
+    "@context": "https://schema.org",
+    "@type": "Person",
+    "@id": PERSON_ID,
+    name: AUTHOR.name,
+    url: `${SITE_URL}/`,
+    email: `mailto:${AUTHOR.email}`,
+    jobTitle: AUTHOR.jobTitle,
+    affiliation: {
+      "@type": "CollegeOrUniversity",
+      name: AUTHOR.school.name,
+      url: AUTHOR.school.url,
+    },
+    contactPoint: {
+      "@type": "ContactPoint",
+      contactType: "collaboration",
+      email: AUTHOR.email,
+    },
+    sameAs: AUTHOR.sameAs,
+  };
+}
+
+export function workJsonLd(item: WorkItem) {
+  const url = absoluteUrl(`/works/${item.slug}`);
+  const hero = item.image && stillOf(item.image);
+  // A YouTube link is a video about the work, not the work itself; any other
+  // link is left out rather than claimed as the same thing.
+  const video = linkVideo(item.link);
+  return {
+    "@context": "https://schema.org",
+    "@type": "CreativeWork",
+    "@id": `${url}#work`,
+    url,
+    name: item.title ?? item.heading,
+    headline: item.heading,
+    description: item.summary ?? item.body?.[0],
+    abstract: item.achievements?.join(" "),
+    image: hero ? absoluteUrl(hero.src) : undefined,
+    datePublished: item.published,
+    keywords: item.tags?.join(", "),
+    creator: { "@id": PERSON_ID, "@type": "Person", name: AUTHOR.name },
+    subjectOf: video && {
+      "@type": "VideoObject",
+      name: video.alt,
+      url: video.src,
+      thumbnailUrl: video.poster && absoluteUrl(video.poster),
+    },
+  };
+}
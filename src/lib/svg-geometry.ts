@@ -0,0 +1,25 @@
+/*
+ * Small helpers shared by the build-time SVG drawings — the telemetry charts
+ * and the flight maps — which both reduce thousands of logged points to a
+ * path in viewBox units.
+ */
+
+/* Every nth item, always keeping the last so the line reaches its end. */
+export function thin<T>(items: T[], max: number) {
+  if (items.length <= max) return items;
+  const stride = Math.ceil(items.length / max);
+  return items.filter((_, i) => i % stride === 0 || i === items.length - 1);
+}
+
+/* Smallest and largest — without spreading thousands of values into arguments. */
+export function extent(values: number[]): [number, number] {
+  return values.reduce<[number, number]>(
+    ([min, max], value) => [Math.min(min, value), Math.max(max, value)],
+    [Infinity, -Infinity],
+  );
+}
+
+/* A tenth of a viewBox unit is finer than any screen draws it. */
+export function round(value: number) {
+  return Math.round(value * 10) / 10;
+}
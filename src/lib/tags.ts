@@ -0,0 +1,43 @@
+import type { WorkItem } from "@/types/content";
+
+/*
+ * Tags are written as display labels in the works frontmatter ("3D printing")
+ * and reach URLs as slugs (/tags/3d-printing, /?tag=3d-printing). Kept free of
+ * server-only imports so the Works grid filter can use it on the client.
+ */
+
+export interface Tag {
+  slug: string;
+  label: string;
+  /** How many works carry it. */
+  count: number;
+}
+
+export function tagSlug(label: string) {
+  return label
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/** Every tag across `items`, most used first, then alphabetically. */
+export function collectTags(items: WorkItem[]): Tag[] {
+  const bySlug = new Map<string, Tag>();
+  for (const item of items) {
+    for (const label of item.tags ?? []) {
+      const slug = tagSlug(label);
+      const tag = bySlug.get(slug) ?? { slug, label, count: 0 };
+      tag.count += 1;
+      bySlug.set(slug, tag);
+    }
+  }
+  return [...bySlug.values()].sort(
+    (a, b) => b.count - a.count || a.label.localeCompare(b.label),
+  );
+}
+
+export function hasTag(item: WorkItem, slug: string) {
+  return (item.tags ?? []).some((label) => tagSlug(label) === slug);
+}
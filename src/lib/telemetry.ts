@@ -0,0 +1,169 @@
+import fs from "node:fs";
+import type { Telemetry, TelemetryChart } from "@/types/content";
+import { publicPath } from "./public-files";
+import { extent, round, thin } from "./svg-geometry";
+
+/*
+ * Telemetry CSVs turned into chart geometry at build time — paths, ticks and
+ * hover points in SVG viewBox units — so the page ships a finished SVG and the
+ * client only has to find the nearest point under the pointer.
+ */
+
+/** The SVG viewBox, and the margins the axes and their labels sit in. */
+export const CHART_BOX = { width: 640, height: 360, top: 16, right: 16, bottom: 48, left: 72 };
+
+/* Enough to trace any flight smoothly; the rest only inflates the HTML. */
+const MAX_PATH_POINTS = 1000;
+/* Each hover point travels to the client as props, so fewer still. */
+const MAX_HOVER_POINTS = 300;
+const TICKS = 5;
+
+export interface ChartTick {
+  /** Position along its axis, in viewBox units. */
+  at: number;
+  label: string;
+}
+
+export interface ChartPoint {
+  x: number;
+  y: number;
+  /** The x and y values as the readout shows them. */
+  readout: [string, string];
+}
+
+export interface ChartGeometry {
+  title: string;
+  xLabel: string;
+  yLabel: string;
+  /** The line, as an SVG path. */
+  path: string;
+  points: ChartPoint[];
+  xTicks: ChartTick[];
+  yTicks: ChartTick[];
+  /** What the chart shows, for screen readers. */
+  description: string;
+}
+
+export interface TelemetryTable {
+  columns: string[];
+  rows: number[][];
+}
+
+/*
+ * Header row, then numbers. Blank lines and # comments are skipped; an empty
+ * cell is a gap in that column. Throws on anything else, naming the line.
+ */
+export function readTelemetry(src: string): TelemetryTable {
+  const lines = fs
+    .readFileSync(publicPath(src), "utf8")
+    .split(/\r?\n/)
+    .map((line, i) => ({ line: line.trim(), number: i + 1 }))
+    .filter(({ line }) => line && !line.startsWith("#"));
+  if (lines.length === 0) throw new Error("is empty");
+
+  const columns = lines[0].line.split(",").map((name) => name.trim());
+  const rows = lines.slice(1).map(({ line, number }) => {
+    const cells = line.split(",");
+    if (cells.length !== columns.length) {
+      throw new Error(`line ${number} has ${cells.length} cells, not ${columns.length}`);
+    }
+    return cells.map((cell) => {
+      const value = cell.trim() === "" ? NaN : Number(cell);
+      if (cell.trim() !== "" && !Number.isFinite(value)) {
+        throw new Error(`line ${number}: "${cell.trim()}" is not a number`);
+      }
+      return value;
+    });
+  });
+  return { columns, rows };
+}
+
+/* 1, 2 or 5 × a power of ten, giving about TICKS steps across `span`. */
+function niceStep(span: number) {
+  const raw = span / TICKS;
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  const norm = raw / magnitude;
+  return (norm < 1.5 ? 1 : norm < 3 ? 2 : norm < 7 ? 5 : 10) * magnitude;
+}
+
+function formatValue(value: number, places = 2) {
+  // Rounding can leave -0, which would print as "−0".
+  return (value === 0 ? 0 : value)
+    .toLocaleString("en-US", { maximumFractionDigits: places })
+    .replace(/^-/, "−");
+}
+
+/* The axis range rounded out to whole steps, and a tick on each step. */
+function axis([low, high]: [number, number], length: number, flip: boolean) {
+  const span = high > low ? high - low : 2;
+  const step = niceStep(span);
+  const min = Math.floor((high > low ? low : low - 1) / step) * step;
+  const max = Math.ceil((high > low ? high : high + 1) / step) * step;
+  const places = Math.max(0, -Math.floor(Math.log10(step)));
+
+  const scale = (value: number) => {
+    const t = (value - min) / (max - min);
+    return round((flip ? 1 - t : t) * length);
+  };
+  const ticks: ChartTick[] = [];
+  for (let value = min; value <= max + step / 2; value += step) {
+    ticks.push({ at: scale(value), label: formatValue(value, places) });
+  }
+  return { scale, ticks };
+}
+
+/* The x/y pairs a chart plots: rows where both columns have a value. */
+export function chartPairs(table: TelemetryTable, chart: TelemetryChart) {
+  const xIndex = table.columns.indexOf(chart.x);
+  const yIndex = table.columns.indexOf(chart.y);
+  return table.rows
+    .map((row) => [row[xIndex], row[yIndex]] as [number, number])
+    .filter(([x, y]) => !Number.isNaN(x) && !Number.isNaN(y));
+}
+
+function chartGeometry(
+  table: TelemetryTable,
+  chart: TelemetryChart,
+  labels: Record<string, string>,
+): ChartGeometry {
+  const pairs = chartPairs(table, chart);
+  const xRange = extent(pairs.map(([value]) => value));
+  const yRange = extent(pairs.map(([, value]) => value));
+
+  const { width, height, top, right, bottom, left } = CHART_BOX;
+  const x = axis(xRange, width - left - right, false);
+  const y = axis(yRange, height - top - bottom, true);
+  const at = ([xv, yv]: [number, number]) => ({ x: left + x.scale(xv), y: top + y.scale(yv) });
+
+  const xLabel = labels[chart.x] ?? chart.x;
+  const yLabel = labels[chart.y] ?? chart.y;
+  const path = thin(pairs, MAX_PATH_POINTS)
+    .map((pair, i) => {
+      const point = at(pair);
+      return `${i === 0 ? "M" : "L"}${point.x} ${point.y}`;
+    })
+    .join("");
+  const range = ([min, max]: [number, number]) => `${formatValue(min)} to ${formatValue(max)}`;
+
+  return {
+    title: chart.title ?? `${yLabel} against ${xLabel}`,
+    xLabel,
+    yLabel,
+    path,
+    points: thin(pairs, MAX_HOVER_POINTS).map((pair) => ({
+      ...at(pair),
+      readout: [formatValue(pair[0]), formatValue(pair[1])],
+    })),
+    xTicks: x.ticks.map((tick) => ({ ...tick, at: left + tick.at })),
+    yTicks: y.ticks.map((tick) => ({ ...tick, at: top + tick.at })),
+    description: `${yLabel} from ${range(yRange)}, over ${xLabel} from ${range(xRange)}.`,
+  };
+}
+
+/** Every chart a work's telemetry asks for, in order. */
+export function telemetryCharts(telemetry: Telemetry[]): ChartGeometry[] {
+  return telemetry.flatMap((file) => {
+    const table = readTelemetry(file.src);
+    return file.charts.map((chart) => chartGeometry(table, chart, file.labels ?? {}));
+  });
+}
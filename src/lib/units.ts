@@ -0,0 +1,57 @@
+import type { Spec, SpecUnit } from "@/types/content";
+
+/*
+ * Metric ⇄ imperial for the spec sheet. Every SpecUnit belongs to one system
+ * and names its counterpart in the other, so a reading converts the same way
+ * wherever it appears: lengths and altitudes between m/ft, cm/in and km/mi,
+ * temperatures between °C and °F.
+ */
+
+export type UnitSystem = "metric" | "imperial";
+
+interface Unit {
+  system: UnitSystem;
+  /** The counterpart in the other system. */
+  to: SpecUnit;
+  convert: (value: number) => number;
+}
+
+const UNITS: Record<SpecUnit, Unit> = {
+  mm: { system: "metric", to: "in", convert: (v) => v / 25.4 },
+  cm: { system: "metric", to: "in", convert: (v) => v / 2.54 },
+  m: { system: "metric", to: "ft", convert: (v) => v / 0.3048 },
+  km: { system: "metric", to: "mi", convert: (v) => v / 1.609344 },
+  in: { system: "imperial", to: "cm", convert: (v) => v * 2.54 },
+  ft: { system: "imperial", to: "m", convert: (v) => v * 0.3048 },
+  mi: { system: "imperial", to: "km", convert: (v) => v * 1.609344 },
+  "°C": { system: "metric", to: "°F", convert: (v) => (v * 9) / 5 + 32 },
+  "°F": { system: "imperial", to: "°C", convert: (v) => ((v - 32) * 5) / 9 },
+};
+
+export const SPEC_UNITS = Object.keys(UNITS) as SpecUnit[];
+
+function decimals(value: number) {
+  return value.toString().split(".")[1]?.length ?? 0;
+}
+
+/*
+ * Thousands separators, a real minus sign, and as many decimals as the value
+ * was written with — one more place for small converted values, so 1.6 m
+ * reads 5.2 ft rather than 5 ft.
+ */
+function formatNumber(value: number, places: number) {
+  return value
+    .toLocaleString("en-US", { minimumFractionDigits: places, maximumFractionDigits: places })
+    .replace(/^-/, "−");
+}
+
+/** A spec as the visitor's system shows it: the number and its unit. */
+export function specReading(spec: Spec, system: UnitSystem): { value: string; unit?: SpecUnit } {
+  const unit = spec.unit && UNITS[spec.unit];
+  if (!unit || unit.system === system) {
+    return { value: formatNumber(spec.value, decimals(spec.value)), unit: spec.unit };
+  }
+  const converted = unit.convert(spec.value);
+  const places = Math.max(decimals(spec.value), Math.abs(converted) < 10 ? 1 : 0);
+  return { value: formatNumber(converted, places), unit: unit.to };
+}
@@ -0,0 +1,398 @@
+import { open, stat } from "node:fs/promises";
+import sharp from "sharp";
+import type { FlightTrack, Media, Spec, Telemetry } from "@/types/content";
+// Relative, not "@/lib/content": next.config.ts loads this file outside the
+// bundler, where the path alias does not resolve.
+import { BIO_CLIPS } from "./bio";
+import { albumCollections, backgroundVideo, workItems } from "./content";
+import { readTrack } from "./flight-track";
+import { publicPath } from "./public-files";
+import { tagSlug } from "./tags";
+import { chartPairs, readTelemetry } from "./telemetry";
+import { SPEC_UNITS } from "./units";
+import { youtubeId } from "./youtube";
+
+/*
+ * Build-time checks over everything in src/lib/content.ts, plus the bio's
+ * clips. Run from next.config.ts during `next build` only, so a broken entry
+ * fails the deploy instead of shipping a blank tile — but never gets in the way
+ * of `next dev`.
+ *
+ * Each check pushes onto one list rather than throwing, so a single run reports
+ * every broken entry at once.
+ */
+
+const SLUG = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const DATE = /^\d{4}\.(0[1-9]|1[0-2])$/;
+const HEX_COLOUR = /^#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const FUNCTION_COLOUR = /^(?:rgba?|hsla?|hwb|lab|lch|oklab|oklch|color)\([^()]+\)$/i;
+
+interface Issue {
+  /** Which entry, e.g. `workItems[1] "high-altitude-balloon"`. */
+  entry: string;
+  /** Which field on it, e.g. `gallery[2].src`. */
+  field: string;
+  message: string;
+}
+
+export class ContentValidationError extends Error {
+  constructor(issues: Issue[]) {
+    super(formatReport(issues));
+    this.name = "ContentValidationError";
+  }
+}
+
+function formatReport(issues: Issue[]) {
+  const byEntry = new Map<string, Issue[]>();
+  for (const issue of issues) {
+    byEntry.set(issue.entry, [...(byEntry.get(issue.entry) ?? []), issue]);
+  }
+
+  const lines = [
+    `Content validation failed — ${issues.length} problem${issues.length === 1 ? "" : "s"}:`,
+  ];
+  for (const [entry, entryIssues] of byEntry) {
+    lines.push("", `  ${entry}`);
+    for (const { field, message } of entryIssues) lines.push(`    ${field}: ${message}`);
+  }
+  return lines.join("\n");
+}
+
+function isVideoSrc(src: string) {
+  return /\.(mp4|webm|mov|m4v)$/i.test(src);
+}
+
+async function fileExists(file: string) {
+  try {
+    return (await stat(file)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/*
+ * Width and height of the first video track, read from its MP4 `tkhd` box so
+ * checking a clip needs no ffmpeg. Walks moov → trak → tkhd; the track size is
+ * the last 8 bytes of tkhd, as 16.16 fixed point. Audio tracks report 0×0 and
+ * are skipped.
+ */
+async function videoSize(file: string): Promise<{ width: number; height: number } | null> {
+  const handle = await open(file, "r");
+  try {
+    const { size } = await handle.stat();
+
+    type Visit = (type: string, bodyStart: number, boxEnd: number) => Promise<boolean>;
+    const readBoxes = async (start: number, end: number, visit: Visit) => {
+      let offset = start;
+      const header = Buffer.alloc(16);
+      while (offset + 8 <= end) {
+        await handle.read(header, 0, 16, offset);
+        let boxSize = header.readUInt32BE(0);
+        const type = header.toString("latin1", 4, 8);
+        let headerSize = 8;
+        if (boxSize === 1) {
+          boxSize = Number(header.readBigUInt64BE(8));
+          headerSize = 16;
+        } else if (boxSize === 0) {
+          boxSize = end - offset;
+        }
+        if (boxSize < headerSize) return;
+        if (await visit(type, offset + headerSize, offset + boxSize)) return;
+        offset += boxSize;
+      }
+    };
+
+    let found: { width: number; height: number } | null = null;
+    await readBoxes(0, size, async (type, bodyStart, boxEnd) => {
+      if (type !== "moov") return false;
+      await readBoxes(bodyStart, boxEnd, async (trakType, trakStart, trakEnd) => {
+        if (trakType !== "trak") return false;
+        await readBoxes(trakStart, trakEnd, async (boxType, _start, end) => {
+          if (boxType !== "tkhd") return false;
+          const dims = Buffer.alloc(8);
+          await handle.read(dims, 0, 8, end - 8);
+          const width = Math.round(dims.readUInt32BE(0) / 65536);
+          const height = Math.round(dims.readUInt32BE(4) / 65536);
+          if (width > 0 && height > 0) found = { width, height };
+          return true;
+        });
+        return found !== null;
+      });
+      return true;
+    });
+    return found;
+  } finally {
+    await handle.close();
+  }
+}
+
+async function mediaSize(file: string, video: boolean) {
+  if (video) return videoSize(file);
+  const { width, height } = (await sharp(file).metadata()).autoOrient;
+  return width && height ? { width, height } : null;
+}
+
+async function checkMedia(
+  issues: Issue[],
+  entry: string,
+  field: string,
+  media: Pick<Media, "src" | "kind" | "width" | "height" | "poster" | "sources">,
+) {
+  // A YouTube video lives off-site. Only its poster is ours to check — and it
+  // must exist, since the facade shows it so nothing is fetched before play.
+  if (media.kind === "youtube") {
+    if (!youtubeId(media.src)) {
+      issues.push({
+        entry,
+        field: `${field}.src`,
+        message: `${media.src} is not a YouTube video URL`,
+      });
+    }
+    if (media.poster === undefined) {
+      issues.push({ entry, field, message: "a YouTube video needs a local poster" });
+    } else {
+      await checkMedia(issues, entry, `${field}.poster`, { src: media.poster, kind: "image" });
+    }
+    return;
+  }
+
+  if (media.poster !== undefined) {
+    await checkMedia(issues, entry, `${field}.poster`, { src: media.poster, kind: "image" });
+  }
+  for (const [i, source] of (media.sources ?? []).entries()) {
+    await checkMedia(issues, entry, `${field}.sources[${i}]`, { ...source, kind: "video" });
+  }
+
+  if (!media.src.startsWith("/")) {
+    issues.push({
+      entry,
+      field: `${field}.src`,
+      message: `${media.src} should be site-absolute, starting with /`,
+    });
+    return;
+  }
+
+  const file = publicPath(media.src);
+  if (!(await fileExists(file))) {
+    issues.push({ entry, field: `${field}.src`, message: `${media.src} does not exist in public/` });
+    return;
+  }
+
+  if (media.width === undefined && media.height === undefined) return;
+  if (media.width === undefined || media.height === undefined) {
+    issues.push({ entry, field, message: "declares only one of width/height" });
+    return;
+  }
+
+  let actual: { width: number; height: number } | null;
+  try {
+    actual = await mediaSize(file, media.kind === "video" || isVideoSrc(media.src));
+  } catch (err) {
+    issues.push({
+      entry,
+      field: `${field}.src`,
+      message: `could not be read (${(err as Error).message})`,
+    });
+    return;
+  }
+  if (!actual) {
+    issues.push({ entry, field, message: `could not read the dimensions of ${media.src}` });
+  } else if (actual.width !== media.width || actual.height !== media.height) {
+    issues.push({
+      entry,
+      field,
+      message: `declares ${media.width}×${media.height} but ${media.src} is ${actual.width}×${actual.height}`,
+    });
+  }
+}
+
+function checkSlugs(issues: Issue[], list: string, slugs: string[]) {
+  const seen = new Set<string>();
+  slugs.forEach((slug, i) => {
+    const entry = `${list}[${i}] "${slug}"`;
+    if (!SLUG.test(slug)) {
+      issues.push({ entry, field: "slug", message: "must be lowercase letters, digits and single hyphens" });
+    }
+    if (seen.has(slug)) issues.push({ entry, field: "slug", message: "is used by an earlier entry" });
+    seen.add(slug);
+  });
+}
+
+function checkDate(issues: Issue[], entry: string, date: string | undefined) {
+  if (date !== undefined && !DATE.test(date)) {
+    issues.push({ entry, field: "date", message: `${date} is not YYYY.MM` });
+  }
+}
+
+/* Tags become /tags/[slug] routes, so two spellings of one tag would split it. */
+function checkTags(issues: Issue[], entry: string, tags: string[], spellings: Map<string, string>) {
+  for (const label of tags) {
+    const slug = tagSlug(label);
+    if (!slug) {
+      issues.push({ entry, field: "tags", message: `"${label}" has no letters or digits to link to` });
+      continue;
+    }
+    const earlier = spellings.get(slug);
+    if (earlier !== undefined && earlier !== label) {
+      issues.push({ entry, field: "tags", message: `"${label}" is spelled "${earlier}" elsewhere` });
+    }
+    spellings.set(slug, earlier ?? label);
+  }
+}
+
+/* YAML passes along whatever was typed; a misspelt unit would just never convert. */
+function checkSpecs(issues: Issue[], entry: string, specs: Spec[]) {
+  for (const [i, spec] of specs.entries()) {
+    const field = `specs[${i}]`;
+    if (typeof spec.label !== "string" || !spec.label) {
+      issues.push({ entry, field, message: "needs a label" });
+    }
+    if (typeof spec.value !== "number" || !Number.isFinite(spec.value)) {
+      issues.push({ entry, field: `${field}.value`, message: `${spec.value} is not a number` });
+    }
+    if (spec.unit !== undefined && !SPEC_UNITS.includes(spec.unit)) {
+      issues.push({
+        entry,
+        field: `${field}.unit`,
+        message: `"${spec.unit}" is not one of ${SPEC_UNITS.join(", ")}`,
+      });
+    }
+  }
+}
+
+/* The page charts these at build time; a bad file would fail it less clearly. */
+async function checkTelemetry(issues: Issue[], entry: string, telemetry: Telemetry[]) {
+  for (const [i, file] of telemetry.entries()) {
+    const field = `telemetry[${i}]`;
+    if (!file.src.startsWith("/") || !(await fileExists(publicPath(file.src)))) {
+      issues.push({ entry, field: `${field}.src`, message: `${file.src} does not exist in public/` });
+      continue;
+    }
+    let table: ReturnType<typeof readTelemetry>;
+    try {
+      table = readTelemetry(file.src);
+    } catch (err) {
+      issues.push({ entry, field: `${field}.src`, message: (err as Error).message });
+      continue;
+    }
+    for (const [j, chart] of file.charts.entries()) {
+      const missing = [chart.x, chart.y].filter((column) => !table.columns.includes(column));
+      if (missing.length > 0) {
+        issues.push({
+          entry,
+          field: `${field}.charts[${j}]`,
+          message: `${file.src} has no ${missing.map((c) => `"${c}"`).join(" or ")} column`,
+        });
+      } else if (chartPairs(table, chart).length < 2) {
+        issues.push({
+          entry,
+          field: `${field}.charts[${j}]`,
+          message: `needs at least two rows with both "${chart.x}" and "${chart.y}"`,
+        });
+      }
+    }
+  }
+}
+
+async function checkTracks(issues: Issue[], entry: string, tracks: FlightTrack[]) {
+  for (const [i, track] of tracks.entries()) {
+    const field = `tracks[${i}].src`;
+    if (!track.src.startsWith("/") || !(await fileExists(publicPath(track.src)))) {
+      issues.push({ entry, field, message: `${track.src} does not exist in public/` });
+      continue;
+    }
+    try {
+      readTrack(track.src);
+    } catch (err) {
+      issues.push({ entry, field, message: (err as Error).message });
+    }
+  }
+}
+
+function isColour(value: string) {
+  return HEX_COLOUR.test(value) || FUNCTION_COLOUR.test(value);
+}
+
+export async function validateContent(): Promise<Issue[]> {
+  const issues: Issue[] = [];
+
+  checkSlugs(issues, "workItems", workItems.map((item) => item.slug));
+  const tagSpellings = new Map<string, string>();
+  for (const [i, item] of workItems.entries()) {
+    const entry = `workItems[${i}] "${item.slug}"`;
+    checkDate(issues, entry, item.date);
+    checkTags(issues, entry, item.tags ?? [], tagSpellings);
+    checkSpecs(issues, entry, item.specs ?? []);
+    await checkTelemetry(issues, entry, item.telemetry ?? []);
+    await checkTracks(issues, entry, item.tracks ?? []);
+    for (const field of ["bg", "fg"] as const) {
+      if (!isColour(item[field])) {
+        issues.push({ entry, field, message: `${item[field]} is not a CSS colour` });
+      }
+    }
+    if (item.tile) await checkMedia(issues, entry, "tile", item.tile);
+    if (item.image) await checkMedia(issues, entry, "image", item.image);
+    for (const [j, media] of (item.gallery ?? []).entries()) {
+      await checkMedia(issues, entry, `gallery[${j}]`, media);
+    }
+    if (item.link?.poster !== undefined) {
+      if (!youtubeId(item.link.href)) {
+        issues.push({ entry, field: "link.poster", message: "only a YouTube link can play in place" });
+      }
+      await checkMedia(issues, entry, "link.poster", { src: item.link.poster, kind: "image" });
+    }
+    for (const [j, block] of (item.blocks ?? []).entries()) {
+      if (block.type === "figure" || block.type === "video") {
+        await checkMedia(issues, entry, `blocks[${j}] (${block.type})`, block.media);
+      }
+    }
+  }
+
+  checkSlugs(issues, "albumCollections", albumCollections.map((c) => c.slug));
+  for (const [i, collection] of albumCollections.entries()) {
+    const entry = `albumCollections[${i}] "${collection.slug}"`;
+    checkDate(issues, entry, collection.date);
+    if (collection.cover) await checkMedia(issues, entry, "cover", collection.cover);
+    for (const [j, photo] of collection.photos.entries()) {
+      await checkMedia(issues, entry, `photos[${j}]`, photo);
+    }
+  }
+
+  // The poster is all the layer shows until a source plays, or if none will.
+  const { poster } = backgroundVideo;
+  if (poster === undefined) {
+    issues.push({ entry: "home", field: "backgroundVideo", message: "needs a poster still" });
+  }
+  // Without its clip the layer simply holds the poster, so that warns, not fails.
+  if (await fileExists(publicPath(backgroundVideo.src))) {
+    await checkMedia(issues, "home", "backgroundVideo", backgroundVideo);
+  } else {
+    if (poster !== undefined) {
+      await checkMedia(issues, "home", "backgroundVideo.poster", { src: poster, kind: "image" });
+    }
+    console.warn(
+      `Content validation: ${backgroundVideo.src} is not in public/ — the home page ` +
+        "shows the background poster in place of its clip.",
+    );
+  }
+  for (const [id, clip] of Object.entries(BIO_CLIPS)) {
+    // Crossfading the background into itself shows nothing and loads it twice.
+    if (clip.src === backgroundVideo.src) {
+      issues.push({
+        entry: "home",
+        field: `bio pill ${id} clip.src`,
+        message: "is the background video itself — give the pill its own footage",
+      });
+      continue;
+    }
+    await checkMedia(issues, "home", `bio pill ${id} clip`, clip);
+  }
+
+  return issues;
+}
+
+/** Throws a ContentValidationError listing every problem, if there are any. */
+export async function assertValidContent() {
+  const issues = await validateContent();
+  if (issues.length > 0) throw new ContentValidationError(issues);
+}
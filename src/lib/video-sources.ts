@@ -0,0 +1,68 @@
+import type { Media, VideoSource } from "@/types/content";
+
+/*
+ * Client-side source selection for videos that list `sources`. Runs in the
+ * browser only: it needs canPlayType, the viewport and the connection.
+ */
+
+const TYPES: Record<string, string> = {
+  webm: "video/webm",
+  mp4: "video/mp4",
+  m4v: "video/mp4",
+  mov: "video/quicktime",
+};
+
+function sourceType(source: VideoSource) {
+  const ext = source.src.split(".").pop()?.toLowerCase() ?? "";
+  return source.type ?? TYPES[ext] ?? "";
+}
+
+interface Connection {
+  saveData?: boolean;
+  effectiveType?: string;
+}
+
+/* Save-Data, or a connection the browser rates at 3G or worse. */
+function isConstrained() {
+  const conn = (navigator as Navigator & { connection?: Connection }).connection;
+  return conn?.saveData === true || /(^|-)(2g|3g)$/.test(conn?.effectiveType ?? "");
+}
+
+/*
+ * Pixels of width needed to fill the viewport edge to edge, object-fit: cover.
+ * A portrait phone crops a landscape clip, so its height sets the width.
+ * Device pixel ratio counts up to 2; past that nobody sees the difference in
+ * a moving, dimmed background.
+ */
+function coverWidth(source: VideoSource) {
+  const aspect = source.width && source.height ? source.width / source.height : 16 / 9;
+  const css = Math.max(window.innerWidth, window.innerHeight * aspect);
+  return css * Math.min(window.devicePixelRatio || 1, 2);
+}
+
+/*
+ * Every source this browser can play, best fit first: the smallest that covers
+ * the viewport, then the larger ones, then the ones too small, largest first.
+ * On a constrained connection it is simply smallest first. Ties keep the
+ * order they were listed in, so list WebM ahead of MP4 to prefer it. `src`
+ * always comes last as the baseline.
+ */
+export function rankVideoSources(media: Media): string[] {
+  const probe = document.createElement("video");
+  const playable = (media.sources ?? []).filter(
+    (source) => probe.canPlayType(sourceType(source)) !== "",
+  );
+
+  const constrained = isConstrained();
+  const widthOf = (source: VideoSource) => source.width ?? Infinity;
+  const fits = (source: VideoSource) => !constrained && widthOf(source) >= coverWidth(source);
+
+  const ranked = [
+    ...playable.filter(fits).sort((a, b) => widthOf(a) - widthOf(b)),
+    ...playable
+      .filter((source) => !fits(source))
+      .sort((a, b) => (constrained ? widthOf(a) - widthOf(b) : widthOf(b) - widthOf(a))),
+  ].map((source) => source.src);
+
+  return ranked.includes(media.src) ? ranked : [...ranked, media.src];
+}
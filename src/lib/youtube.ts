@@ -0,0 +1,67 @@
+import type { Media, WorkItem } from "@/types/content";
+
+/*
+ * YouTube videos as Media. Content gives the video's ordinary URL as `src`
+ * and a local still as `poster`; the page shows that still behind a play
+ * button and only swaps in the youtube-nocookie player once it is pressed, so
+ * a visit that never plays the video never talks to YouTube.
+ */
+
+const HOSTS = new Set(["youtube.com", "www.youtube.com", "m.youtube.com", "youtu.be"]);
+const ID = /^[\w-]{11}$/;
+
+/** The video id in a youtu.be, watch, embed or shorts URL — or null. */
+export function youtubeId(href: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(href);
+  } catch {
+    return null;
+  }
+  if (!HOSTS.has(url.hostname)) return null;
+  const id =
+    url.hostname === "youtu.be"
+      ? url.pathname.slice(1)
+      : (url.searchParams.get("v") ?? url.pathname.match(/^\/(?:embed|shorts)\/([^/]+)/)?.[1]);
+  return id && ID.test(id) ? id : null;
+}
+
+/* `t=` / `start=` as whole seconds; YouTube also writes it as 1m30s. */
+function startSeconds(href: string) {
+  const url = new URL(href);
+  const value = url.searchParams.get("t") ?? url.searchParams.get("start");
+  const match = value?.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s?)?$/);
+  if (!match) return 0;
+  const [, h = "0", m = "0", s = "0"] = match;
+  return Number(h) * 3600 + Number(m) * 60 + Number(s);
+}
+
+/** The player URL, set only once the visitor asks for it — so it autoplays. */
+export function youtubeEmbedUrl(href: string) {
+  const params = new URLSearchParams({ autoplay: "1", rel: "0" });
+  const start = startSeconds(href);
+  if (start > 0) params.set("start", String(start));
+  return `https://www.youtube-nocookie.com/embed/${youtubeId(href)}?${params}`;
+}
+
+export function isYouTube(media: Media) {
+  return media.kind === "youtube";
+}
+
+/*
+ * What to show where only a still will do — tiles, feeds, social cards: the
+ * media itself, or a YouTube video's poster.
+ */
+export function stillOf(media: Media): Media | undefined {
+  if (!isYouTube(media)) return media;
+  return media.poster ? { src: media.poster, alt: media.alt } : undefined;
+}
+
+/*
+ * A project's `link`, upgraded to an in-page video when it points at YouTube
+ * and names a `poster` to show until it plays. Otherwise it stays a link.
+ */
+export function linkVideo(link: WorkItem["link"]): Media | undefined {
+  if (!link?.poster || !youtubeId(link.href)) return undefined;
+  return { src: link.href, alt: link.label, kind: "youtube", poster: link.poster };
+}
@@ -1,11 +1,97 @@
+/** One encoding of a video. */
+export interface VideoSource {
+  src: string;
+  /** MIME type; inferred from the extension when omitted. */
+  type?: string;
+  /** Encoded size. The width is what source selection compares against the
+   *  viewport; declare both and the build checks them against the file. */
+  width?: number;
+  height?: number;
+}
+
 export interface Media {
   src: string;
   alt: string;
-  kind?: "image" | "video";
+  /** "youtube" makes `src` a YouTube URL, played in place behind a facade of
+   *  `poster` — which it then requires — so nothing loads from YouTube until
+   *  the visitor presses play. See src/lib/youtube.ts. */
+  kind?: "image" | "video" | "youtube";
   /** Intrinsic size. When set on a `tile`, the tile frame adopts this aspect
    *  ratio so the media fits exactly — no cropping, no letterboxing. */
   width?: number;
   height?: number;
+  /** Narrower copies for `<img srcset>`, plus the original. Filled in at build
+   *  time from scripts/responsive-images.mjs — never written by hand. */
+  srcSet?: string;
+  /** Tiny data-URL stand-in painted until the image loads. Also generated. */
+  placeholder?: string;
+  /** Still for a video, shown until it plays — and for good when motion is
+   *  reduced and the visitor never presses play. */
+  poster?: string;
+  /** Alternate encodings of a video (WebM/MP4, several resolutions). The page
+   *  plays the smallest one that covers the viewport — or the smallest of all
+   *  on Save-Data or a 2G/3G connection — and falls back through the rest, then
+   *  `src`, then the poster. Without it, `src` is the only source. */
+  sources?: VideoSource[];
+}
+
+export type InlineMark = "bold" | "italic" | "code";
+
+/** A run of text in a block: plain, or with marks and/or a link. */
+export type Inline = string | { text: string; marks?: InlineMark[]; href?: string };
+
+export type BodyBlock =
+  | { type: "paragraph"; content: Inline[] }
+  /** Level 2 sits under the page title; 3 under that. */
+  | { type: "heading"; level: 2 | 3; text: string }
+  | { type: "figure"; media: Media; caption?: string }
+  | { type: "video"; media: Media; caption?: string }
+  | { type: "quote"; content: Inline[]; cite?: string }
+  | { type: "list"; ordered: boolean; items: Inline[][] }
+  | { type: "code"; code: string; language?: string };
+
+/** Units a spec can be given in. Each has a counterpart in the other system,
+ *  which the spec sheet's metric/imperial toggle converts it to. */
+export type SpecUnit = "mm" | "cm" | "m" | "km" | "in" | "ft" | "mi" | "°C" | "°F";
+
+/** One line of a project's spec sheet, e.g. wingspan 1.6 m. */
+export interface Spec {
+  label: string;
+  /** As measured, in `unit`; shown as written when the visitor's system
+   *  matches, converted when it doesn't. */
+  value: number;
+  /** Omit for a plain count. */
+  unit?: SpecUnit;
+}
+
+/** One chart drawn from a telemetry file: column `y` plotted against `x`. */
+export interface TelemetryChart {
+  x: string;
+  y: string;
+  /** Defaults to "<y label> against <x label>". */
+  title?: string;
+}
+
+/*
+ * A CSV under public/ with a header row of column names and numbers below it
+ * (lines starting with # are comments). Charted as static SVG at build time.
+ */
+export interface Telemetry {
+  src: string;
+  /** Axis labels by column, units included, e.g. { altitude_m: "Altitude (m)" }.
+   *  A column without one is labelled with its name. */
+  labels?: Record<string, string>;
+  charts: TelemetryChart[];
+}
+
+/** A GPS log of one flight, drawn as a map on the project page. */
+export interface FlightTrack {
+  /** A .gpx or .kml file under public/. */
+  src: string;
+  /** Shown under the map. */
+  title?: string;
+  /** What to call the highest point — "Burst" for a balloon. Defaults to "Peak". */
+  peak?: string;
 }
 
 export interface WorkItem {
@@ -19,13 +105,25 @@ export interface WorkItem {
   title?: string;
   /** YYYY.MM, as carried over from the old site. */
   date?: string;
+  /** Publish date as YYYY-MM-DD, for feeds. Set by the content loader from the
+   *  frontmatter's `published`, or else the first of the month in `date`. */
+  published?: string;
   tags?: string[];
   /** One-line description, shown under the page title. */
   summary?: string;
-  /** Body paragraphs. */
+  /** Body paragraphs, as plain text — the simple case, and what feeds and
+   *  descriptions quote. */
   body?: string[];
+  /** The full write-up, when it needs more than paragraphs. Parsed by the
+   *  content loader from the Markdown below the frontmatter; the page renders
+   *  this in place of `body` when present. */
+  blocks?: BodyBlock[];
+  /** Key figures, shown as a table under the summary. */
+  specs?: Spec[];
   achievements?: string[];
-  link?: { href: string; label: string };
+  /** Outbound link under the write-up. With a `poster`, a YouTube `href`
+   *  plays in place behind that still instead of sending visitors away. */
+  link?: { href: string; label: string; poster?: string };
   /** Tile fill, shown until a real image is dropped in. */
   bg: string;
   /** Text colour used on top of `bg`. */
@@ -37,7 +135,61 @@ export interface WorkItem {
   /** Preview shown on the Works tile. A video here autoplays, muted and looping.
    *  Falls back to `image` when unset. */
   tile?: Media;
-  /** Hero shown at the top of the project page. */
+  /** Hero shown at the top of the project page. May be a YouTube video; the
+   *  tile, feeds and social card then use its poster. */
   image?: Media;
   gallery?: Media[];
+  /** Flight or test data, charted on the project page. */
+  telemetry?: Telemetry[];
+  /** GPS tracks, each drawn as an offline map marking launch, peak and landing. */
+  tracks?: FlightTrack[];
+}
+
+export interface Photo extends Media {
+  /** Shown under the photo. Omit to let the photo stand alone. */
+  caption?: string;
+  /** Intrinsic size. Required so the masonry columns reserve the right height
+   *  before the file arrives. */
+  width: number;
+  height: number;
 }
+
+export interface AlbumCollection {
+  /** Route segment under /album. */
+  slug: string;
+  title: string;
+  /** YYYY.MM, matching `WorkItem.date`. */
+  date?: string;
+  /** One-line description, shown under the collection title. */
+  summary?: string;
+  /** Shown on the album index. Falls back to the first photo when unset. */
+  cover?: Photo;
+  photos: Photo[];
+}
+
+/*
+ * The home bio, as a tree. Strings are text runs and carry their own spacing;
+ * a pill's children are what it reveals. Reveal ids are not written here —
+ * src/lib/bio.ts numbers the pills and the email depth-first.
+ */
+export type BioNode =
+  | string
+  | {
+      kind: "pill";
+      label: string;
+      /** Text kept on one line with the pill, so the phrase never breaks
+       *  before it ("My background is in AEROSPACE"). */
+      lead?: string;
+      /** Background clip that crossfades in while this pill is hovered or
+       *  just opened, in place of the default one. */
+      clip?: Media;
+      children: BioNode[];
+    }
+  | { kind: "link"; label: string; href: string }
+  /** Swaps the word "email" for the address in place; counts as a reveal. */
+  | { kind: "email"; address: string }
+  /** Previews the background video on hover, opens it on click. */
+  | { kind: "video"; label: string };
+
+/** One animated line-group of the bio; paragraphs fade in one after another. */
+export type BioParagraph = BioNode[];